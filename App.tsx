@@ -1,14 +1,27 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Search, Zap, BookOpen, AlertCircle, LayoutGrid, RotateCcw, Keyboard as KeyboardIcon, Calendar, ArrowRight, CheckCircle2, MessageSquare, Quote, X as ClearIcon, ZapOff, Timer, Settings as SettingsIcon, Cloud } from 'lucide-react';
+import { Search, Zap, BookOpen, AlertCircle, LayoutGrid, RotateCcw, Keyboard as KeyboardIcon, Calendar, ArrowRight, CheckCircle2, MessageSquare, Quote, X as ClearIcon, ZapOff, Timer, Settings as SettingsIcon, Cloud, Activity, WifiOff, ListPlus, BookOpenText } from 'lucide-react';
 import { WordData, SentenceData } from './types';
-import { lookupWord, lookupSentence } from './services/geminiService';
+import { lookupWord, lookupWordInContext, lookupSentence, getAiProvider } from './services/geminiService';
+import { AiErrorInfo, describeAiError } from './services/aiErrors';
+import { isAbortError } from './services/requestControl';
+import { buildStudyQueue, isDue, StudyItem, LibraryFilter } from './services/studyQueue';
+import { isWordItem } from './services/studyCards';
+import { loadLibrary, putItem, putItems, deleteItem, describeStorageError, requestPersistentStorage } from './services/storage';
+import { withLibraryMeta, sameContent, touch, itemText } from './services/library';
+import { findDuplicate, mergeDuplicate } from './services/duplicates';
+import { pushItems, syncWithSheets } from './services/sheetsSync';
+import { useOnlineStatus } from './services/pwa';
 import { WordCard } from './components/WordCard';
 import { SentenceCard } from './components/SentenceCard';
 import { LoadingSkeleton } from './components/LoadingSkeleton';
 import { FlashcardPage } from './components/FlashcardPage';
 import { StudySession } from './components/StudySession';
 import { DetailModal } from './components/DetailModal';
+import { StatsPage } from './components/StatsPage';
+import { AiSettingsModal } from './components/AiSettingsModal';
+import { BatchLookupModal } from './components/BatchLookupModal';
+import { ReadingPage } from './components/ReadingPage';
 
 const App: React.FC = () => {
   const [query, setQuery] = useState('');
@@ -17,36 +30,31 @@ const App: React.FC = () => {
   const [sentenceData, setSentenceData] = useState<SentenceData | null>(null);
   const [loading, setLoading] = useState(false);
   const [isSubLoading, setIsSubLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AiErrorInfo | null>(null);
   const [lastLoadTime, setLastLoadTime] = useState<number | null>(null);
   
-  const [currentView, setCurrentView] = useState<'search' | 'flashcards' | 'study'>('search');
+  const [currentView, setCurrentView] = useState<'search' | 'flashcards' | 'study' | 'stats' | 'reading'>('search');
   const [sheetsUrl, setSheetsUrl] = useState(() => localStorage.getItem('google_sheets_url') || '');
+  const [aiProviderLabel, setAiProviderLabel] = useState(() => getAiProvider().label);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [showBatchLookup, setShowBatchLookup] = useState(false);
   
   const [selectedDetail, setSelectedDetail] = useState<WordData | SentenceData | null>(null);
   const latestQueryRef = useRef('');
+  const searchControllerRef = useRef<AbortController | null>(null);
 
-  const [savedWords, setSavedWords] = useState<WordData[]>(() => {
-    try {
-      const saved = localStorage.getItem('flashcards');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
-  });
-
-  const [savedSentences, setSavedSentences] = useState<SentenceData[]>(() => {
-    try {
-      const saved = localStorage.getItem('saved_sentences');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
-  });
+  const [savedWords, setSavedWords] = useState<WordData[]>([]);
+  const [savedSentences, setSavedSentences] = useState<SentenceData[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const isOnline = useOnlineStatus();
 
-  const [studyQueue, setStudyQueue] = useState<any[]>([]);
+  const [studyQueue, setStudyQueue] = useState<StudyItem[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const now = Date.now();
-  const dueWordsCount = useMemo(() => savedWords.filter(w => !w.next_review || w.next_review <= now).length, [savedWords, now]);
-  const dueSentencesCount = useMemo(() => savedSentences.filter(s => !s.next_review || s.next_review <= now).length, [savedSentences, now]);
+  const dueWordsCount = useMemo(() => savedWords.filter(w => isDue(w, now)).length, [savedWords, now]);
+  const dueSentencesCount = useMemo(() => savedSentences.filter(s => isDue(s, now)).length, [savedSentences, now]);
 
   // Phím tắt toàn cục
   useEffect(() => {
@@ -71,6 +79,11 @@ const App: React.FC = () => {
         e.preventDefault();
         setCurrentView('flashcards');
       }
+      // Alt + R: Chế độ đọc hiểu
+      if (e.altKey && e.key.toLowerCase() === 'r') {
+        e.preventDefault();
+        setCurrentView('reading');
+      }
       // Alt + Q: Quay lại tìm kiếm
       if (e.altKey && e.key.toLowerCase() === 'q') {
         e.preventDefault();
@@ -95,6 +108,8 @@ const App: React.FC = () => {
   }, [currentView, searchMode]);
 
   useEffect(() => {
+    // Kết quả cho tiền tố cũ không còn cần nữa
+    searchControllerRef.current?.abort();
     if (currentView !== 'search' || query.trim().length < 2) {
       if (query.trim().length === 0) {
         setWordData(null);
@@ -108,10 +123,33 @@ const App: React.FC = () => {
     return () => { if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current); };
   }, [query, searchMode, currentView]);
 
-  useEffect(() => localStorage.setItem('flashcards', JSON.stringify(savedWords)), [savedWords]);
-  useEffect(() => localStorage.setItem('saved_sentences', JSON.stringify(savedSentences)), [savedSentences]);
+  const reloadLibrary = () => {
+    loadLibrary()
+      .then(({ words, sentences }) => {
+        setSavedWords(words);
+        setSavedSentences(sentences);
+      })
+      .catch(err => { console.error(err); setStorageError("Không thể đọc thư viện từ trình duyệt. Dữ liệu cũ vẫn được giữ nguyên."); });
+  };
+
+  useEffect(() => {
+    reloadLibrary();
+    requestPersistentStorage().catch(console.error);
+  }, []);
   useEffect(() => localStorage.setItem('google_sheets_url', sheetsUrl), [sheetsUrl]);
 
+  // Có mạng trở lại thì gửi nốt các thay đổi chưa lên được Google Sheets
+  useEffect(() => {
+    if (!sheetsUrl) return;
+    const handleOnline = () => {
+      syncWithSheets(sheetsUrl, savedWords, savedSentences)
+        .then(summary => { if (summary.pulled) reloadLibrary(); })
+        .catch(console.error);
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [sheetsUrl, savedWords, savedSentences]);
+
   const handleSearch = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
     const cleanQuery = query.trim();
@@ -122,19 +160,23 @@ const App: React.FC = () => {
     if (searchMode === 'word' && wordData?.word.toLowerCase() === cleanQuery.toLowerCase()) return;
     if (searchMode === 'sentence' && sentenceData?.sentence.toLowerCase() === cleanQuery.toLowerCase()) return;
     
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+
     const startTime = performance.now();
     setLoading(true);
     setError(null);
     try {
       if (searchMode === 'word') {
-        const result = await lookupWord(cleanQuery);
+        const result = await lookupWord(cleanQuery, controller.signal);
         if (latestQueryRef.current === cleanQuery) {
           setWordData(result);
           setSentenceData(null);
           setLastLoadTime(Math.round(performance.now() - startTime));
         }
       } else {
-        const result = await lookupSentence(cleanQuery);
+        const result = await lookupSentence(cleanQuery, controller.signal);
         if (latestQueryRef.current === cleanQuery) {
           setSentenceData(result);
           setWordData(null);
@@ -142,20 +184,28 @@ const App: React.FC = () => {
         }
       }
     } catch (err) {
-      if (latestQueryRef.current === cleanQuery) setError("Lỗi tra cứu. Vui lòng kiểm tra lại kết nối.");
+      if (isAbortError(err)) return;
+      console.error(err);
+      if (latestQueryRef.current === cleanQuery) setError(describeAiError(err));
     } finally {
       if (latestQueryRef.current === cleanQuery) setLoading(false);
     }
   };
 
-  const handleQuickLookup = async (word: string) => {
+  // Có câu chứa từ thì tra đúng nghĩa trong câu đó; câu cũng thành ví dụ của thẻ nếu người dùng lưu từ
+  const handleQuickLookup = async (word: string, context?: string) => {
     const cleanWord = word.replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, "").trim();
     if (!cleanWord || cleanWord.length < 2) return;
+    const sentence = context?.trim();
     setIsSubLoading(true);
     try {
-      const result = await lookupWord(cleanWord);
+      const result = sentence && /\s/.test(sentence) ? await lookupWordInContext(cleanWord, sentence) : await lookupWord(cleanWord);
       setSelectedDetail(result);
-    } catch (e) { console.error(e); } finally { setIsSubLoading(false); }
+    } catch (e) {
+      console.error(e);
+      const info = describeAiError(e);
+      alert(`${info.message} ${info.hint}`);
+    } finally { setIsSubLoading(false); }
   };
 
   const clearSearch = () => {
@@ -167,25 +217,113 @@ const App: React.FC = () => {
     inputRef.current?.focus();
   };
 
-  const isItemSaved = (item: WordData | SentenceData | null) => {
-    if (!item) return false;
-    return 'word' in item 
-      ? savedWords.some(w => w.word.toLowerCase() === item.word.toLowerCase()) 
-      : savedSentences.some(s => s.sentence === item.sentence);
+  const findSaved = (item: WordData | SentenceData): StudyItem | undefined => {
+    const pool: StudyItem[] = isWordItem(item) ? savedWords : savedSentences;
+    return item.id ? pool.find(saved => saved.id === item.id) : pool.find(saved => sameContent(saved, item));
+  };
+
+  const isItemSaved = (item: WordData | SentenceData | null) => !!item && !!findSaved(item);
+
+  // Mục đã lưu luôn hiển thị bản trong thư viện để kết quả tra lại không che mất phần người dùng đã sửa
+  const displayed = <T extends WordData | SentenceData>(item: T) => (findSaved(item) as T | undefined) ?? item;
+
+  const persist = (write: Promise<unknown>) => {
+    write.catch(err => { console.error(err); setStorageError(describeStorageError(err)); });
+  };
+
+  const removeItem = (item: StudyItem) => {
+    if (isWordItem(item)) setSavedWords(prev => prev.filter(w => w.id !== item.id));
+    else setSavedSentences(prev => prev.filter(s => s.id !== item.id));
+    persist(deleteItem(item));
   };
 
   const handleToggleSave = (item: WordData | SentenceData | null) => {
     if (!item) return;
-    const isWord = 'word' in item;
-    if (isWord) {
-      const word = item as WordData;
-      if (isItemSaved(word)) setSavedWords(prev => prev.filter(w => w.word.toLowerCase() !== word.word.toLowerCase()));
-      else setSavedWords(prev => [{ ...word, srs_level: 0, next_review: Date.now() }, ...prev]);
-    } else {
-      const sentence = item as SentenceData;
-      if (isItemSaved(sentence)) setSavedSentences(prev => prev.filter(s => s.sentence !== sentence.sentence));
-      else setSavedSentences(prev => [{ ...sentence, srs_level: 0, next_review: Date.now() }, ...prev]);
+    const existing = findSaved(item);
+    if (existing) {
+      removeItem(existing);
+      return;
     }
+    const duplicate = findDuplicate(item, isWordItem(item) ? savedWords : savedSentences);
+    if (duplicate && confirm(`"${itemText(item)}" gần giống thẻ "${itemText(duplicate)}" đã lưu.\nGộp dữ liệu mới vào thẻ cũ và giữ tiến độ ôn tập? Chọn Hủy để lưu thành thẻ riêng.`)) {
+      handleUpdateItem(mergeDuplicate(duplicate, item));
+      return;
+    }
+    addItem(item);
+  };
+
+  const addItem = (item: WordData | SentenceData) => {
+    const saved = withLibraryMeta({ ...item, srs_level: 0, next_review: Date.now() });
+    if (isWordItem(saved)) setSavedWords(prev => [saved, ...prev]);
+    else setSavedSentences(prev => [saved as SentenceData, ...prev]);
+    persist(putItem(saved));
+    return saved;
+  };
+
+  // Đồng bộ một thẻ lên sheet; thẻ chưa lưu thì lưu vào thư viện trước để có id
+  const handleSyncItem = async (item: WordData | SentenceData | null) => {
+    if (!item || !sheetsUrl) return;
+    await pushItems(sheetsUrl, [findSaved(item) ?? addItem(item)]);
+  };
+
+  const handleRemoveById = (id: string) => {
+    const target = [...savedWords, ...savedSentences].find(item => item.id === id);
+    if (target) removeItem(target);
+  };
+
+  const handleUpdateItem = (item: StudyItem) => {
+    const updated = touch(item);
+    if (isWordItem(updated)) setSavedWords(prev => prev.map(old => old.id === updated.id ? updated : old));
+    else setSavedSentences(prev => prev.map(old => old.id === updated.id ? updated as SentenceData : old));
+    persist(putItem(updated));
+  };
+
+  const handleSaveEdits = (item: StudyItem) => {
+    handleUpdateItem(item);
+    setSelectedDetail(item as WordData | SentenceData);
+  };
+
+  const handleUpdateItems = (items: StudyItem[]) => {
+    const now = Date.now();
+    const updated = new Map(items.map(item => [item.id, touch(item, now)]));
+    setSavedWords(prev => prev.map(old => (updated.get(old.id) as WordData) ?? old));
+    setSavedSentences(prev => prev.map(old => (updated.get(old.id) as SentenceData) ?? old));
+    persist(putItems([...updated.values()]));
+  };
+
+  // Bỏ qua mục đã có trong thư viện (hoặc trùng ngay trong file); mục gần trùng thì hỏi có gộp vào thẻ cũ không.
+  // Trả về số mục thực sự được thêm.
+  const handleImportItems = (items: StudyItem[]) => {
+    const now = Date.now();
+    const added: StudyItem[] = [];
+    const duplicates: [StudyItem, StudyItem][] = [];
+    items.forEach(item => {
+      if (findSaved(item) || [...added, ...duplicates.map(([, other]) => other)].some(other => sameContent(other, item))) return;
+      const duplicate = findDuplicate(item, isWordItem(item) ? savedWords : savedSentences);
+      if (duplicate) duplicates.push([duplicate, item]);
+      else added.push(withLibraryMeta({ srs_level: 0, next_review: now, ...item }));
+    });
+    if (duplicates.length) {
+      const [existing, item] = duplicates[0];
+      if (confirm(`${duplicates.length} mục gần giống thẻ đã lưu (ví dụ "${itemText(item)}" và "${itemText(existing)}").\nGộp vào thẻ cũ và giữ tiến độ ôn tập? Chọn Hủy để thêm thành thẻ riêng.`)) {
+        // Nhiều mục có thể cùng gộp vào một thẻ
+        const merged = new Map<string, StudyItem>();
+        duplicates.forEach(([target, incoming]) => merged.set(target.id!, mergeDuplicate(merged.get(target.id!) ?? target, incoming)));
+        handleUpdateItems([...merged.values()]);
+      } else {
+        duplicates.forEach(([, incoming]) => added.push(withLibraryMeta({ srs_level: 0, next_review: now, ...incoming })));
+      }
+    }
+    if (added.length === 0) return 0;
+    setSavedWords(prev => [...added.filter(isWordItem), ...prev]);
+    setSavedSentences(prev => [...added.filter(item => !isWordItem(item)) as SentenceData[], ...prev]);
+    persist(putItems(added));
+    return added.length;
+  };
+
+  const handleStartStudy = (type: 'word' | 'sentence' | 'all', mode: 'due' | 'all', filter: LibraryFilter = {}) => {
+    setStudyQueue(buildStudyQueue(savedWords, savedSentences, { type, mode, ...filter }));
+    setCurrentView('study');
   };
 
   return (
@@ -206,11 +344,34 @@ const App: React.FC = () => {
                 {(dueWordsCount + dueSentencesCount) > 0 && <span className="absolute top-2 right-2 w-2 h-2 bg-red-500 rounded-full ring-2 ring-gray-950"></span>}
                 <span className="absolute -bottom-1 -right-1 bg-gray-950 border border-gray-700 text-[7px] font-black text-gray-400 px-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">Alt+F</span>
              </button>
+             <button onClick={() => setCurrentView('reading')} className={`group relative p-2.5 rounded-xl transition-all ${currentView === 'reading' ? 'text-emerald-400 bg-gray-900 border border-emerald-500/20 shadow-lg shadow-emerald-500/5' : 'text-gray-500 hover:text-white hover:bg-gray-900'}`} title="Đọc hiểu (Alt+R)">
+                <BookOpenText size={20} />
+                <span className="absolute -bottom-1 -right-1 bg-gray-950 border border-gray-700 text-[7px] font-black text-gray-400 px-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">Alt+R</span>
+             </button>
+             <button onClick={() => setCurrentView('stats')} className={`p-2.5 rounded-xl transition-all ${currentView === 'stats' ? 'text-emerald-400 bg-gray-900 border border-emerald-500/20 shadow-lg shadow-emerald-500/5' : 'text-gray-500 hover:text-white hover:bg-gray-900'}`} title="Thống kê">
+                <Activity size={20} />
+             </button>
+             <button onClick={() => setShowAiSettings(true)} className="p-2.5 rounded-xl transition-all text-gray-500 hover:text-white hover:bg-gray-900" title={`Nguồn AI: ${aiProviderLabel}`}>
+                <SettingsIcon size={20} />
+             </button>
           </nav>
         </div>
       </header>
 
       <main className="flex-1 container max-w-4xl mx-auto px-3 py-4 flex flex-col items-center overflow-y-auto custom-scrollbar">
+        {storageError && (
+          <div className="w-full flex items-center gap-3 text-red-400 text-xs font-bold bg-red-950/20 px-5 py-3 mb-4 rounded-2xl border border-red-900/30 animate-in fade-in">
+            <AlertCircle size={18} className="shrink-0" />
+            <span className="flex-1">{storageError}</span>
+            <button onClick={() => setStorageError(null)} className="text-red-400/60 hover:text-red-300"><ClearIcon size={14} /></button>
+          </div>
+        )}
+        {!isOnline && currentView !== 'study' && (
+          <div className="w-full flex items-center gap-3 text-amber-400 text-xs font-bold bg-amber-950/20 px-5 py-3 mb-4 rounded-2xl border border-amber-900/30 animate-in fade-in">
+            <WifiOff size={18} className="shrink-0" />
+            <span className="flex-1">Đang offline. Thư viện và ôn tập vẫn dùng bình thường; chỉ tra được các từ đã tra trước đó, chấm phát âm và chấm câu tạm tắt.</span>
+          </div>
+        )}
         {currentView === 'search' && (
             <div className="w-full flex flex-col items-center">
                 <div className="w-full max-w-xl mb-4">
@@ -243,24 +404,38 @@ const App: React.FC = () => {
                               <span className="absolute -top-4 left-1/2 -translate-x-1/2 bg-gray-950 border border-gray-700 text-[6px] font-black text-gray-400 px-1 rounded opacity-0 group-hover:opacity-100 whitespace-nowrap">Alt+C</span>
                             </button>
                           )}
-                          <div className="hidden xs:flex bg-emerald-950/40 px-2 py-1 rounded-lg border border-emerald-500/20 text-[9px] font-black text-emerald-400 items-center gap-1 shadow-inner shadow-emerald-500/5">FLASH AI</div>
+                          <div className="hidden xs:flex bg-emerald-950/40 px-2 py-1 rounded-lg border border-emerald-500/20 text-[9px] font-black text-emerald-400 items-center gap-1 shadow-inner shadow-emerald-500/5" title={aiProviderLabel}>FLASH AI</div>
                         </div>
                     </div>
+                    {searchMode === 'word' && (
+                      <button onClick={() => setShowBatchLookup(true)} className="mt-2 mx-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-emerald-400 hover:bg-gray-900 transition-all">
+                        <ListPlus size={14} /> Tra nhiều từ cùng lúc
+                      </button>
+                    )}
                 </div>
 
                 <div className="w-full flex justify-center pb-12">
                     {loading && <LoadingSkeleton />}
                     {error && (
                       <div className="flex items-center gap-3 text-red-400 text-xs font-bold bg-red-950/20 px-5 py-3 rounded-2xl border border-red-900/30 animate-in fade-in zoom-in-95">
-                        <AlertCircle size={18} />
-                        {error}
+                        <AlertCircle size={18} className="shrink-0" />
+                        <div className="flex flex-col gap-0.5">
+                          <span>{error.message}</span>
+                          <span className="text-red-400/60 font-medium">{error.hint}</span>
+                        </div>
+                        {error.retryable && (
+                          <button onClick={() => handleSearch()} className="ml-2 flex items-center gap-1.5 px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 rounded-lg text-red-300 transition-colors"><RotateCcw size={14} /> Thử lại</button>
+                        )}
+                        {error.kind === 'auth' && (
+                          <button onClick={() => setShowAiSettings(true)} className="ml-2 flex items-center gap-1.5 px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 rounded-lg text-red-300 transition-colors"><SettingsIcon size={14} /> Cài đặt AI</button>
+                        )}
                       </div>
                     )}
                     {wordData && !loading && searchMode === 'word' && (
-                        <WordCard data={wordData} isSaved={isItemSaved(wordData)} onToggleSave={() => handleToggleSave(wordData)} sheetsUrl={sheetsUrl} onLookup={handleQuickLookup} />
+                        <WordCard data={displayed(wordData)} isSaved={isItemSaved(wordData)} onToggleSave={() => handleToggleSave(wordData)} onSyncToSheets={sheetsUrl ? () => handleSyncItem(wordData) : undefined} onLookup={handleQuickLookup} />
                     )}
                     {sentenceData && !loading && searchMode === 'sentence' && (
-                        <SentenceCard data={sentenceData} isSaved={isItemSaved(sentenceData)} onToggleSave={() => handleToggleSave(sentenceData)} sheetsUrl={sheetsUrl} onLookup={handleQuickLookup} />
+                        <SentenceCard data={displayed(sentenceData)} isSaved={isItemSaved(sentenceData)} onToggleSave={() => handleToggleSave(sentenceData)} onSyncToSheets={sheetsUrl ? () => handleSyncItem(sentenceData) : undefined} onLookup={handleQuickLookup} />
                     )}
                     {!loading && !wordData && !sentenceData && !error && (
                         <div className="text-center text-gray-800 mt-20 opacity-10 select-none flex flex-col items-center">
@@ -274,18 +449,22 @@ const App: React.FC = () => {
         )}
 
         {currentView === 'flashcards' && (
-            <FlashcardPage words={savedWords} sentences={savedSentences} onSelectWord={setSelectedDetail} onSelectSentence={setSelectedDetail} onRemoveWord={(s) => setSavedWords(prev => prev.filter(w => w.word !== s))} onRemoveSentence={(s) => setSavedSentences(prev => prev.filter(item => item.sentence !== s))} onStartStudy={(type, mode) => { setStudyQueue([...savedWords, ...savedSentences].sort(() => Math.random() - 0.5)); setCurrentView('study'); }} onBackToSearch={() => setCurrentView('search')} sheetsUrl={sheetsUrl} onUpdateSheetsUrl={setSheetsUrl} />
+            <FlashcardPage words={savedWords} sentences={savedSentences} onSelectWord={setSelectedDetail} onSelectSentence={setSelectedDetail} onRemoveWord={handleRemoveById} onRemoveSentence={handleRemoveById} onStartStudy={handleStartStudy} onBackToSearch={() => setCurrentView('search')} sheetsUrl={sheetsUrl} onUpdateSheetsUrl={setSheetsUrl} onLibraryChanged={() => { reloadLibrary(); setSheetsUrl(localStorage.getItem('google_sheets_url') || ''); }} onImportItems={handleImportItems} onUpdateItems={handleUpdateItems} />
         )}
+
+        {currentView === 'reading' && <ReadingPage words={savedWords} onLookup={handleQuickLookup} onImportItems={handleImportItems} isLookingUp={isSubLoading} />}
+
+        {currentView === 'stats' && <StatsPage words={savedWords} sentences={savedSentences} />}
       </main>
 
       {selectedDetail && (
-        <DetailModal item={selectedDetail} onClose={() => setSelectedDetail(null)} sheetsUrl={sheetsUrl} isSaved={isItemSaved(selectedDetail)} onToggleSave={() => handleToggleSave(selectedDetail)} onLookup={handleQuickLookup} isLoading={isSubLoading} />
+        <DetailModal item={displayed(selectedDetail)} savedItem={findSaved(selectedDetail)} onSaveEdits={handleSaveEdits} onClose={() => setSelectedDetail(null)} onSyncToSheets={sheetsUrl ? () => handleSyncItem(selectedDetail) : undefined} isSaved={isItemSaved(selectedDetail)} onToggleSave={() => handleToggleSave(selectedDetail)} onLookup={handleQuickLookup} isLoading={isSubLoading} />
       )}
 
-      {currentView === 'study' && <StudySession words={studyQueue} onComplete={() => setCurrentView('flashcards')} onUpdateWord={(w) => {
-          if ('word' in w) setSavedWords(prev => prev.map(old => old.word === w.word ? w as WordData : old));
-          else setSavedSentences(prev => prev.map(old => old.sentence === w.sentence ? w as SentenceData : old));
-      }} />}
+      {showBatchLookup && <BatchLookupModal savedWords={savedWords} onClose={() => setShowBatchLookup(false)} onImport={handleImportItems} />}
+      {showAiSettings && <AiSettingsModal onClose={() => setShowAiSettings(false)} onSaved={(id) => setAiProviderLabel(getAiProvider(id).label)} />}
+
+      {currentView === 'study' && <StudySession items={studyQueue} onComplete={() => setCurrentView('flashcards')} onUpdateWord={handleUpdateItem} />}
     </div>
   );
 };
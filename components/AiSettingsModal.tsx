@@ -0,0 +1,105 @@
+
+import React, { useState, useEffect } from 'react';
+import { X, Settings as SettingsIcon, Info, Trash2 } from 'lucide-react';
+import { AiProviderId } from '../services/aiProvider';
+import { AI_PROVIDERS, getAiProviderId, setAiProviderId } from '../services/geminiService';
+import { OpenAiConfig, getOpenAiConfig, setOpenAiConfig } from '../services/openAiProvider';
+import { getProxyUrl, setProxyUrl } from '../services/proxyProvider';
+import { LookupCacheStats, getLookupCacheStats, clearLookupCache } from '../services/lookupCache';
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+interface AiSettingsModalProps {
+  onClose: () => void;
+  onSaved: (id: AiProviderId) => void;
+}
+
+export const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ onClose, onSaved }) => {
+  const [providerId, setProviderId] = useState<AiProviderId>(getAiProviderId);
+  const [openAi, setOpenAi] = useState<OpenAiConfig>(getOpenAiConfig);
+  const [proxyUrl, setProxyUrlState] = useState(getProxyUrl);
+  const [cacheStats, setCacheStats] = useState<LookupCacheStats | null>(null);
+
+  useEffect(() => {
+    getLookupCacheStats().then(setCacheStats).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  const handleSave = () => {
+    setAiProviderId(providerId);
+    setOpenAiConfig(openAi);
+    setProxyUrl(proxyUrl);
+    onSaved(providerId);
+    onClose();
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm('Xóa toàn bộ kết quả tra cứu đã lưu tạm? Thư viện của bạn không bị ảnh hưởng.')) return;
+    try {
+      await clearLookupCache();
+      setCacheStats({ entries: 0, bytes: 0 });
+    } catch (err) {
+      console.error(err);
+      alert('Không thể xóa bộ nhớ đệm.');
+    }
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-xl px-4 py-2 text-sm text-emerald-400 placeholder-gray-600 focus:outline-none focus:border-blue-500 transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="absolute inset-0" onClick={onClose}></div>
+      <div className="relative w-full max-w-md bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6 animate-in zoom-in-95 duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-emerald-500/10 p-2 rounded-lg text-emerald-400"><SettingsIcon size={20} /></div>
+            <h2 className="text-xl font-bold text-white">Nguồn AI</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="flex flex-col gap-2 mb-6">
+          {Object.values(AI_PROVIDERS).map(provider => (
+            <button key={provider.id} onClick={() => setProviderId(provider.id)} className={`px-4 py-3 rounded-xl border text-left text-sm font-bold transition-all ${providerId === provider.id ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-400' : 'bg-gray-800/50 border-gray-800 text-gray-400 hover:text-white'}`}>
+              {provider.label}
+            </button>
+          ))}
+        </div>
+
+        {providerId === 'proxy' && (
+          <div className="flex flex-col gap-3 mb-6">
+            <input type="text" value={proxyUrl} onChange={(e) => setProxyUrlState(e.target.value)} placeholder="http://localhost:8788" className={inputClass} />
+            <div className="flex items-center gap-2 text-[10px] text-gray-500 italic"><Info size={12} /> API key nằm trên máy chủ, không có trong mã của trang web.</div>
+          </div>
+        )}
+        {providerId === 'openai' && (
+          <div className="flex flex-col gap-3 mb-6">
+            <input type="text" value={openAi.baseUrl} onChange={(e) => setOpenAi({ ...openAi, baseUrl: e.target.value })} placeholder="http://localhost:1234/v1" className={inputClass} />
+            <input type="text" value={openAi.model} onChange={(e) => setOpenAi({ ...openAi, model: e.target.value })} placeholder="Tên model" className={inputClass} />
+            <input type="password" value={openAi.apiKey} onChange={(e) => setOpenAi({ ...openAi, apiKey: e.target.value })} placeholder="API key (để trống nếu chạy trên máy)" className={inputClass} />
+          </div>
+        )}
+        {providerId === 'fixture' && (
+          <div className="mb-6 flex items-center gap-2 text-[10px] text-gray-500 italic"><Info size={12} /> Trả về dữ liệu mẫu cố định, không cần mạng hay API key.</div>
+        )}
+
+        <div className="mb-6 flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-gray-800/50 border border-gray-800">
+          <div className="text-xs text-gray-400">
+            <div className="font-bold text-gray-300">Bộ nhớ đệm tra cứu</div>
+            {cacheStats ? `${cacheStats.entries} mục · ${formatSize(cacheStats.bytes)}` : 'Đang tính...'}
+          </div>
+          <button onClick={handleClearCache} disabled={!cacheStats?.entries} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-red-400 hover:bg-red-500/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors">
+            <Trash2 size={14} /> Xóa
+          </button>
+        </div>
+
+        <button onClick={handleSave} className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 rounded-xl font-bold text-white transition-colors">Lưu lại</button>
+      </div>
+    </div>
+  );
+};
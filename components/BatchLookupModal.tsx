@@ -0,0 +1,198 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { X, ListPlus, RefreshCw, AlertCircle, CheckCircle2, RotateCcw, Square } from 'lucide-react';
+import { WordData } from '../types';
+import { StudyItem } from '../services/studyQueue';
+import { BatchEntry, parseWordList, lookupBatch } from '../services/batchLookup';
+import { isAbortError } from '../services/requestControl';
+import { sameContent } from '../services/library';
+import { findDuplicate } from '../services/duplicates';
+
+interface BatchLookupModalProps {
+  savedWords: WordData[];
+  onClose: () => void;
+  onImport: (items: StudyItem[]) => number;
+}
+
+const MAX_WORDS = 100;
+
+export const BatchLookupModal: React.FC<BatchLookupModalProps> = ({ savedWords, onClose, onImport }) => {
+  const [text, setText] = useState('');
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const words = parseWordList(text);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => { if (e.key === 'Escape' && !isRunning) onClose(); };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose, isRunning]);
+
+  // Đóng modal giữa chừng thì hủy các lượt tra còn lại
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isSaved = (data: WordData) => savedWords.some(saved => sameContent(saved, data));
+
+  // Khác dạng từ với một thẻ đã lưu (running / run); khi lưu sẽ được hỏi có gộp không
+  const similarWord = (data: WordData) => (findDuplicate(data, savedWords) as WordData | undefined)?.word;
+
+  const updateEntry = (index: number, patch: Partial<BatchEntry>) => {
+    setEntries(prev => prev.map((entry, i) => {
+      if (i !== index) return entry;
+      const next = { ...entry, ...patch };
+      // Từ đã có trong thư viện mặc định bỏ qua; người dùng vẫn có thể chọn lại
+      if (patch.data && isSaved(patch.data)) next.skipped = true;
+      return next;
+    }));
+  };
+
+  const run = async (inputs: string[], indexes: number[]) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    try {
+      await lookupBatch(inputs, indexes, updateEntry, controller.signal);
+    } catch (err) {
+      if (!isAbortError(err)) console.error(err);
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    if (words.length === 0) return;
+    const inputs = words.slice(0, MAX_WORDS);
+    setEntries(inputs.map(input => ({ input, status: 'pending', skipped: false })));
+    run(inputs, inputs.map((_, i) => i));
+  };
+
+  const handleRetry = () => {
+    const indexes = entries.map((entry, i) => entry.status === 'error' || entry.status === 'pending' ? i : -1).filter(i => i >= 0);
+    if (indexes.length) run(entries.map(entry => entry.input), indexes);
+  };
+
+  const editField = (index: number, field: 'word' | 'ipa' | 'meaning_vi', value: string) => {
+    setEntries(prev => prev.map((entry, i) => i === index && entry.data ? { ...entry, data: { ...entry.data, [field]: value } } : entry));
+  };
+
+  const accepted = entries.filter(entry => entry.status === 'done' && !entry.skipped && entry.data?.word.trim());
+  const finished = entries.filter(entry => entry.status === 'done' || entry.status === 'error').length;
+  const failed = entries.filter(entry => entry.status === 'error').length;
+  const interrupted = !isRunning && entries.some(entry => entry.status === 'pending');
+
+  const handleSave = () => {
+    if (accepted.length === 0 || isRunning) return;
+    const added = onImport(accepted.map(entry => ({ ...entry.data!, word: entry.data!.word.trim() })));
+    alert(`Đã thêm ${added} từ vào thư viện${accepted.length > added ? `, bỏ qua ${accepted.length - added} từ đã có` : ''}.`);
+    onClose();
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-emerald-500/50 transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="absolute inset-0" onClick={() => !isRunning && onClose()}></div>
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6 animate-in zoom-in-95 duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-emerald-500/10 p-2 rounded-lg text-emerald-400"><ListPlus size={20} /></div>
+            <h2 className="text-xl font-bold text-white">Tra nhiều từ</h2>
+          </div>
+          <button onClick={onClose} disabled={isRunning} className="p-2 hover:bg-gray-800 rounded-full text-gray-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        {entries.length === 0 ? (
+          <>
+            <textarea
+              autoFocus
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={"Dán danh sách từ, mỗi dòng một từ hoặc ngăn cách bằng dấu phẩy:\n1. apple\n2. run\n3. take off"}
+              className="w-full bg-gray-950/80 border border-gray-800 rounded-xl p-4 text-sm text-white outline-none focus:border-emerald-500/50 min-h-[220px] resize-none transition-all placeholder:text-gray-700 mb-4"
+            />
+            {words.length > MAX_WORDS && (
+              <div className="flex items-center gap-2 text-[10px] text-amber-400 mb-4"><AlertCircle size={12} /> Chỉ tra {MAX_WORDS} từ đầu tiên mỗi lần.</div>
+            )}
+            <button onClick={handleStart} disabled={words.length === 0} className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl font-bold text-white transition-colors">
+              Tra {Math.min(words.length, MAX_WORDS)} từ
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="mb-4">
+              <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-gray-500 mb-1.5">
+                <span>{isRunning ? 'Đang tra cứu' : interrupted ? 'Đã dừng' : 'Hoàn tất'} {finished}/{entries.length}</span>
+                {failed > 0 && <span className="text-red-400">{failed} lỗi</span>}
+              </div>
+              <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(finished / entries.length) * 100}%` }}></div>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar border border-gray-800 rounded-xl mb-4">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-gray-950 text-[10px] font-black uppercase tracking-widest text-gray-500">
+                  <tr>
+                    <th className="p-2 w-8"></th>
+                    <th className="p-2 text-left">Từ</th>
+                    <th className="p-2 text-left">Phiên âm</th>
+                    <th className="p-2 text-left">Nghĩa</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry, i) => (
+                    <tr key={i} className={`border-t border-gray-800 ${entry.skipped ? 'opacity-40' : ''}`}>
+                      <td className="p-2 text-center">
+                        {entry.status === 'done' ? (
+                          <input type="checkbox" checked={!entry.skipped} onChange={() => updateEntry(i, { skipped: !entry.skipped })} className="accent-emerald-500" />
+                        ) : entry.status === 'error' ? (
+                          <AlertCircle size={14} className="text-red-400 mx-auto" />
+                        ) : entry.status === 'loading' ? (
+                          <RefreshCw size={14} className="text-emerald-400 animate-spin mx-auto" />
+                        ) : null}
+                      </td>
+                      {entry.status === 'done' && entry.data ? (
+                        <>
+                          <td className="p-2">
+                            <input value={entry.data.word} onChange={(e) => editField(i, 'word', e.target.value)} className={inputClass} />
+                            {isSaved(entry.data) && <div className="flex items-center gap-1 text-[9px] text-yellow-400 mt-1"><CheckCircle2 size={10} /> Đã có trong thư viện</div>}
+                            {!isSaved(entry.data) && similarWord(entry.data) && <div className="flex items-center gap-1 text-[9px] text-amber-400 mt-1"><AlertCircle size={10} /> Gần giống "{similarWord(entry.data)}" đã lưu</div>}
+                          </td>
+                          <td className="p-2"><input value={entry.data.ipa} onChange={(e) => editField(i, 'ipa', e.target.value)} className={inputClass} /></td>
+                          <td className="p-2"><input value={entry.data.meaning_vi} onChange={(e) => editField(i, 'meaning_vi', e.target.value)} className={inputClass} /></td>
+                        </>
+                      ) : (
+                        <>
+                          <td className="p-2 text-gray-300 font-bold">{entry.input}</td>
+                          <td className="p-2 text-gray-600" colSpan={2}>{entry.status === 'error' ? <span className="text-red-400">{entry.error}</span> : entry.status === 'loading' ? 'Đang tra...' : 'Đang chờ'}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex gap-2">
+              {isRunning ? (
+                <button onClick={() => controllerRef.current?.abort()} className="flex items-center justify-center gap-2 px-4 py-3 bg-gray-800 hover:bg-gray-700 rounded-xl font-bold text-gray-300 transition-colors">
+                  <Square size={14} /> Dừng
+                </button>
+              ) : (failed > 0 || interrupted) && (
+                <button onClick={handleRetry} className="flex items-center justify-center gap-2 px-4 py-3 bg-gray-800 hover:bg-gray-700 rounded-xl font-bold text-gray-300 transition-colors">
+                  <RotateCcw size={14} /> Tra lại {failed > 0 && !interrupted ? 'từ lỗi' : 'phần còn lại'}
+                </button>
+              )}
+              <button onClick={handleSave} disabled={accepted.length === 0 || isRunning} className="flex-1 py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl font-bold text-white transition-colors">
+                Lưu {accepted.length} từ vào thư viện
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
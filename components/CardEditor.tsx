@@ -0,0 +1,108 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Save, Sparkles, RefreshCw, StickyNote, PencilLine } from 'lucide-react';
+import { StudyItem } from '../services/studyQueue';
+import { EditableField, editableFields, toDraft, fromDraft, applyEdits, isEdited, itemKind } from '../services/cardEditing';
+import { regenerateField } from '../services/geminiService';
+import { describeAiError } from '../services/aiErrors';
+import { isAbortError } from '../services/requestControl';
+import { itemText } from '../services/library';
+import { useOnlineStatus } from '../services/pwa';
+
+interface CardEditorProps {
+  item: StudyItem;
+  onSave: (item: StudyItem) => void;
+  onCancel: () => void;
+}
+
+export const CardEditor: React.FC<CardEditorProps> = ({ item, onSave, onCancel }) => {
+  const fields = editableFields(item);
+  const [drafts, setDrafts] = useState<Record<string, string>>(() => Object.fromEntries(fields.map(field => [field.key, toDraft(item, field)])));
+  const [notes, setNotes] = useState(item.notes || '');
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+  const isOnline = useOnlineStatus();
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Đóng trình sửa giữa chừng thì hủy yêu cầu AI đang chạy
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const setDraft = (key: string, value: string) => setDrafts(prev => ({ ...prev, [key]: value }));
+
+  const handleRegenerate = async (field: EditableField) => {
+    if (regenerating || !isOnline) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRegenerating(field.key);
+    try {
+      const value = await regenerateField({ kind: itemKind(item), text: itemText(item), field: field.key, current: fromDraft(field, drafts[field.key]) }, controller.signal);
+      setDraft(field.key, toDraft({ ...item, [field.key]: value } as StudyItem, field));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const info = describeAiError(err);
+      alert(`Không thể tạo lại "${field.label}": ${info.message} ${info.hint}`);
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setRegenerating(null);
+    }
+  };
+
+  const handleSave = () => {
+    const patch: Record<string, unknown> = Object.fromEntries(fields.map(field => [field.key, fromDraft(field, drafts[field.key])]));
+    if (!patch[fields[0].key]) {
+      alert(`${fields[0].label} không được để trống.`);
+      return;
+    }
+    patch.notes = notes.trim();
+    onSave(applyEdits(item, patch));
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500/50 transition-all";
+
+  return (
+    <div className="bg-gray-800/95 sm:rounded-2xl shadow-2xl border border-gray-700/80 w-full max-w-2xl mx-auto animate-in fade-in duration-300">
+      <div className="bg-gray-750 p-4 sm:p-5 border-b border-gray-700 flex items-center gap-3 pr-16">
+        <div className="bg-emerald-500/10 p-2 rounded-lg text-emerald-400"><PencilLine size={20} /></div>
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-white truncate">Sửa "{itemText(item)}"</h2>
+          <p className="text-[10px] text-gray-500">Trường bạn tự sửa sẽ không bị đồng bộ ghi đè.</p>
+        </div>
+      </div>
+
+      <div className="p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col gap-1.5">
+          <span className="text-[8px] font-black text-yellow-500 uppercase tracking-[0.2em] flex items-center gap-1.5"><StickyNote size={10} /> Ghi chú của tôi</span>
+          <textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Ví dụ của riêng bạn, cách bạn nhớ từ này..." className={`${inputClass} min-h-[80px] resize-y`} />
+        </div>
+
+        {fields.map(field => (
+          <div key={field.key} className="flex flex-col gap-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[8px] font-black text-gray-500 uppercase tracking-[0.2em]">
+                {field.label}
+                {isEdited(item, field.key) && <span className="ml-2 text-emerald-500 normal-case tracking-normal">· đã sửa</span>}
+                {(field.kind === 'list' || field.kind === 'pairs') && <span className="ml-2 text-gray-600 normal-case tracking-normal">{field.kind === 'pairs' ? 'mỗi dòng: tiếng Anh => tiếng Việt' : 'mỗi dòng một mục'}</span>}
+              </span>
+              {field.regenerate && (
+                <button onClick={() => handleRegenerate(field)} disabled={!!regenerating || !isOnline} title={isOnline ? 'Nhờ AI viết lại trường này' : 'Cần kết nối mạng'} className="flex items-center gap-1 text-[10px] font-bold text-purple-400 hover:text-purple-300 disabled:text-gray-600 transition-colors">
+                  {regenerating === field.key ? <RefreshCw size={12} className="animate-spin" /> : <Sparkles size={12} />} Tạo lại
+                </button>
+              )}
+            </div>
+            {field.kind === 'text' ? (
+              <input value={drafts[field.key]} onChange={(e) => setDraft(field.key, e.target.value)} className={inputClass} />
+            ) : (
+              <textarea value={drafts[field.key]} onChange={(e) => setDraft(field.key, e.target.value)} rows={field.kind === 'long' ? 2 : 3} className={`${inputClass} resize-y`} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="sticky bottom-0 flex gap-2 p-4 border-t border-gray-700 bg-gray-800/95 backdrop-blur">
+        <button onClick={onCancel} className="px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-xl font-bold text-gray-300 transition-colors">Hủy</button>
+        <button onClick={handleSave} disabled={!!regenerating} className="flex-1 flex items-center justify-center gap-2 py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl font-bold text-white transition-colors">
+          <Save size={16} /> Lưu thay đổi
+        </button>
+      </div>
+    </div>
+  );
+};
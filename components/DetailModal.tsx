@@ -1,22 +1,30 @@
 
-import React, { useEffect } from 'react';
-import { X, RefreshCw } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, RefreshCw, Pencil } from 'lucide-react';
 import { WordData, SentenceData } from '../types';
+import { StudyItem } from '../services/studyQueue';
 import { WordCard } from './WordCard';
 import { SentenceCard } from './SentenceCard';
+import { CardEditor } from './CardEditor';
 
 interface DetailModalProps {
   item: WordData | SentenceData | null;
   onClose: () => void;
-  sheetsUrl?: string;
+  onSyncToSheets?: () => Promise<void>;
   isSaved: boolean;
   onToggleSave: () => void;
-  onLookup?: (word: string) => void;
+  onLookup?: (word: string, context?: string) => void;
   isLoading?: boolean;
+  // Bản trong thư viện của mục đang xem; chỉ mục đã lưu mới sửa được
+  savedItem?: StudyItem;
+  onSaveEdits?: (item: StudyItem) => void;
 }
 
-export const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, sheetsUrl, isSaved, onToggleSave, onLookup, isLoading }) => {
-  if (!item && !isLoading) return null;
+export const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, onSyncToSheets, isSaved, onToggleSave, onLookup, isLoading, savedItem, onSaveEdits }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Tra nhanh sang từ khác thì thoát chế độ sửa
+  useEffect(() => setIsEditing(false), [item]);
 
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
@@ -26,7 +34,10 @@ export const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, sheetsU
     return () => window.removeEventListener('keydown', handleEsc);
   }, [onClose]);
 
+  if (!item && !isLoading) return null;
+
   const isWord = item && 'word' in item;
+  const canEdit = !!savedItem && !!onSaveEdits;
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
@@ -51,12 +62,18 @@ export const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, sheetsU
         )}
 
         {item && (
-          isWord ? (
+          isEditing && canEdit ? (
+            <CardEditor
+              item={savedItem!}
+              onSave={(edited) => { onSaveEdits!(edited); setIsEditing(false); }}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : isWord ? (
             <WordCard 
               data={item as WordData} 
               isSaved={isSaved} 
               onToggleSave={onToggleSave} 
-              sheetsUrl={sheetsUrl}
+              onSyncToSheets={onSyncToSheets}
               onLookup={onLookup}
             />
           ) : (
@@ -64,11 +81,20 @@ export const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, sheetsU
               data={item as SentenceData} 
               isSaved={isSaved} 
               onToggleSave={onToggleSave} 
-              sheetsUrl={sheetsUrl}
+              onSyncToSheets={onSyncToSheets}
               onLookup={onLookup}
             />
           )
         )}
+
+        {canEdit && !isEditing && item && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="w-full mt-2 flex items-center justify-center gap-2 py-3 bg-gray-900/90 hover:bg-gray-800 border border-gray-700 rounded-2xl text-sm font-bold text-emerald-400 transition-colors"
+          >
+            <Pencil size={16} /> Sửa thẻ & ghi chú
+          </button>
+        )}
       </div>
     </div>
   );
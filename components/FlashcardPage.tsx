@@ -1,42 +1,82 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { WordData, SentenceData } from '../types';
-import { Trash2, BookOpen, PlayCircle, Search, Award, Clock, LayoutGrid, List, Eye, EyeOff, Volume2, FileText, FileSpreadsheet, Activity, Flame, ChevronRight, XCircle, CheckCircle2, BookMarked, HelpCircle, MessageSquare, Download, Share2, Cloud, CloudOff, Info, Settings as SettingsIcon, RefreshCw } from 'lucide-react';
+import { isDue, matchesFilter, StudyItem, LibraryFilter } from '../services/studyQueue';
+import { libraryDecks, libraryTags, normalizeDeck, normalizeTags } from '../services/library';
+import { LibraryQuery, LibrarySort, DueFilter, SORT_LABELS, DEFAULT_LIBRARY_QUERY, loadLibraryQuery, saveLibraryQuery, partsOfSpeech, queryItems } from '../services/libraryQuery';
+import { BackupFile, RestoreMode, downloadBackup, parseBackupFile, restoreBackup } from '../services/backup';
+import { downloadAnkiNotes } from '../services/ankiExport';
+import { syncWithSheets } from '../services/sheetsSync';
+import { SpreadsheetModal } from './SpreadsheetModal';
+import { Trash2, BookOpen, PlayCircle, Search, Award, Clock, LayoutGrid, List, Eye, EyeOff, Volume2, FileText, FileSpreadsheet, Activity, Flame, ChevronRight, XCircle, CheckCircle2, BookMarked, HelpCircle, MessageSquare, Download, Share2, Cloud, CloudOff, Info, Settings as SettingsIcon, RefreshCw, DatabaseBackup, ArchiveRestore, AlertTriangle, Layers, Upload, Folder, FolderInput, Tag, SquareCheck, Lightbulb } from 'lucide-react';
 
 interface FlashcardPageProps {
   words: WordData[];
   sentences: SentenceData[];
   onSelectWord: (word: WordData) => void;
   onSelectSentence: (sentence: SentenceData) => void;
-  onRemoveWord: (word: string) => void;
-  onRemoveSentence: (sentence: string) => void;
-  onStartStudy: (type: 'word' | 'sentence' | 'all', mode: 'due' | 'all') => void;
+  onRemoveWord: (id: string) => void;
+  onRemoveSentence: (id: string) => void;
+  onStartStudy: (type: 'word' | 'sentence' | 'all', mode: 'due' | 'all', filter?: LibraryFilter) => void;
   onBackToSearch: () => void;
   sheetsUrl: string;
   onUpdateSheetsUrl: (url: string) => void;
+  onLibraryChanged: () => void;
+  onImportItems: (items: StudyItem[]) => number;
+  onUpdateItems: (items: StudyItem[]) => void;
 }
 
 export const FlashcardPage: React.FC<FlashcardPageProps> = ({
-  words, sentences, onSelectWord, onSelectSentence, onRemoveWord, onRemoveSentence, onStartStudy, onBackToSearch, sheetsUrl, onUpdateSheetsUrl
+  words, sentences, onSelectWord, onSelectSentence, onRemoveWord, onRemoveSentence, onStartStudy, onBackToSearch, sheetsUrl, onUpdateSheetsUrl, onLibraryChanged, onImportItems, onUpdateItems
 }) => {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
   const [isTestMode, setIsTestMode] = useState(false);
   const [revealedItems, setRevealedItems] = useState<Set<string>>(new Set());
-  const [filterLevel, setFilterLevel] = useState<number | null>(null);
+  const [query, setQuery] = useState<LibraryQuery>(loadLibraryQuery);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showSheetsConfig, setShowSheetsConfig] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: BackupFile | null; errors: string[] } | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [spreadsheetMode, setSpreadsheetMode] = useState<'export' | 'import' | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
 
   const now = Date.now();
+
+  useEffect(() => saveLibraryQuery(query), [query]);
+
+  const updateQuery = (patch: Partial<LibraryQuery>) => setQuery(prev => ({ ...prev, ...patch }));
+  const filterLevel = query.level ?? null;
+  const filterDeck = query.deck ?? null;
+  const filterTag = query.tag ?? null;
+  const setFilterLevel = (level: number | null) => updateQuery({ level });
+  const setFilterDeck = (deck: string | null) => updateQuery({ deck });
+  const setFilterTag = (tag: string | null) => updateQuery({ tag });
   
-  const dueWords = useMemo(() => words.filter(w => !w.next_review || w.next_review <= now), [words, now]);
+  const dueWords = useMemo(() => words.filter(w => isDue(w, now)), [words, now]);
   const dueWordsCount = dueWords.length;
 
-  const dueSentences = useMemo(() => sentences.filter(s => !s.next_review || s.next_review <= now), [sentences, now]);
+  const dueSentences = useMemo(() => sentences.filter(s => isDue(s, now)), [sentences, now]);
   const dueSentencesCount = dueSentences.length;
 
   const totalItemsCount = words.length + sentences.length;
 
+  const filter: LibraryFilter = { level: filterLevel, deck: filterDeck, tag: filterTag };
+  const hasFilter = filterLevel !== null || filterDeck !== null || filterTag !== null;
+  // Tìm kiếm và các bộ lọc theo trường chỉ thu hẹp danh sách; ôn nhóm vẫn theo cấp độ / bộ thẻ / thẻ
+  const isNarrowed = hasFilter || !!query.search.trim() || query.partOfSpeech !== null || query.due !== 'all' || query.hasMemoryAid;
+  const filteredWords = useMemo(() => queryItems(words, query, now), [words, query, now]);
+  const filteredSentences = useMemo(() => queryItems(sentences, query, now), [sentences, query, now]);
+  const wordPartsOfSpeech = useMemo(() => partsOfSpeech(words), [words]);
+  const studyPool = useMemo(() => [...words, ...sentences].filter(item => matchesFilter(item, filter)), [words, sentences, filterLevel, filterDeck, filterTag]);
+  const studyDueCount = studyPool.filter(item => isDue(item, now)).length;
+
+  const decks = useMemo(() => libraryDecks([...words, ...sentences]), [words, sentences]);
+  const tags = useMemo(() => libraryTags([...words, ...sentences]), [words, sentences]);
+  const unsortedCount = totalItemsCount - decks.reduce((sum, deck) => sum + deck.count, 0);
+
   const srsBuckets = useMemo(() => {
     const buckets = [
       { level: 0, label: '1 ngày', count: 0, color: 'text-blue-400', border: 'border-blue-500/30', bg: 'bg-blue-500/10' },
@@ -61,79 +101,29 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
   const syncAllToSheets = async () => {
     if (!sheetsUrl || isSyncing) return;
     setIsSyncing(true);
-    let successCount = 0;
-    
     try {
-      // Đồng bộ từ vựng
-      for (const w of words) {
-        await fetch(sheetsUrl, {
-          method: 'POST',
-          mode: 'no-cors',
-          body: JSON.stringify({
-            type: 'Word',
-            word: w.word,
-            ipa: w.ipa,
-            meaning_vi: w.meaning_vi,
-            definition_en: w.definition_en,
-            part_of_speech: w.part_of_speech,
-            example_en: w.example_en,
-            example_vi: w.example_vi,
-            example_b2_en: w.example_b2_en,
-            example_b2_vi: w.example_b2_vi,
-            root_word: w.root_word,
-            mnemonic: w.mnemonic,
-            synonyms: w.synonyms?.join(', '),
-            antonyms: w.antonyms?.join(', '),
-            word_family: w.word_family?.join(', '),
-            collocations: w.collocations?.join(', ')
-          })
-        });
-        successCount++;
-      }
-      // Đồng bộ mẫu câu
-      for (const s of sentences) {
-        await fetch(sheetsUrl, {
-          method: 'POST',
-          mode: 'no-cors',
-          body: JSON.stringify({
-            type: 'Sentence',
-            sentence: s.sentence,
-            meaning_vi: s.meaning_vi,
-            usage_context: s.usage_context,
-            naturalness: s.naturalness_score,
-            grammar: s.grammar_breakdown
-          })
-        });
-        successCount++;
-      }
-      alert(`Đã đồng bộ thành công ${successCount} mục với đầy đủ thông tin lên Google Sheets!`);
+      const summary = await syncWithSheets(sheetsUrl, words, sentences);
+      if (summary.pulled) onLibraryChanged();
+      const parts = [`Đã gửi ${summary.pushed} mục`, `nhận ${summary.pulled} mục sửa từ sheet`];
+      if (summary.deleted) parts.push(`xóa ${summary.deleted} dòng`);
+      if (summary.conflicts) parts.push(`${summary.conflicts} mục sửa ở cả hai nơi (giữ bản mới hơn)`);
+      alert(summary.failed
+        ? `${parts.join(', ')}. Còn ${summary.failed} mục chưa gửi được, sẽ thử lại ở lần đồng bộ sau.`
+        : `${parts.join(', ')}.`);
     } catch (e) {
-      alert("Lỗi khi kết nối với Google Sheets. Vui lòng kiểm tra lại URL.");
+      alert(`Lỗi khi kết nối với Google Sheets: ${e instanceof Error ? e.message : e}`);
     } finally {
       setIsSyncing(false);
     }
   };
 
-  const exportToExcel = () => {
+  const exportToAnki = () => {
     if (words.length === 0 && sentences.length === 0) return;
-    let csvContent = "\uFEFF";
-    csvContent += "Type,Word/Sentence,IPA,Part of Speech,Definition (EN),Meaning (VI),Example (EN),Example (VI)\n";
-    words.forEach(w => {
-      const row = ["Word", `"${w.word}"`, `"/${w.ipa}/"`, `"${w.part_of_speech}"`, `"${w.definition_en}"`, `"${w.meaning_vi}"`, `"${w.example_en}"`, `"${w.example_vi}"`];
-      csvContent += row.join(",") + "\n";
-    });
-    sentences.forEach(s => {
-      const row = ["Sentence", `"${s.sentence}"`, "", "", `"${s.usage_context}"`, `"${s.meaning_vi}"`, "", ""];
-      csvContent += row.join(",") + "\n";
-    });
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `FlashVocab_Export_${new Date().toLocaleDateString()}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const deck = prompt("Tên bộ thẻ (deck) trong Anki:", "FlashVocab");
+    if (deck === null) return;
+    const tags = prompt("Thẻ (tags), cách nhau bởi dấu phẩy:", "flashvocab");
+    if (tags === null) return;
+    downloadAnkiNotes(words, sentences, { deck, tags: tags.split(',') });
     setShowExportMenu(false);
   };
 
@@ -147,6 +137,108 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
     });
   };
 
+  const handleBackup = async () => {
+    setShowExportMenu(false);
+    try {
+      await downloadBackup();
+    } catch (e) {
+      console.error(e);
+      alert("Không thể tạo bản sao lưu.");
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setShowExportMenu(false);
+    setPendingRestore({ fileName: file.name, ...(await parseBackupFile(file)) });
+  };
+
+  const confirmRestore = async (mode: RestoreMode) => {
+    if (!pendingRestore?.backup || isRestoring) return;
+    if (mode === 'replace' && !confirm("Toàn bộ thư viện và lịch sử ôn tập hiện tại sẽ bị thay thế. Tiếp tục?")) return;
+    setIsRestoring(true);
+    try {
+      const summary = await restoreBackup(pendingRestore.backup, mode);
+      onLibraryChanged();
+      setPendingRestore(null);
+      alert(`Đã khôi phục: ${summary.words} từ vựng, ${summary.sentences} mẫu câu, ${summary.reviews} lượt ôn.`);
+    } catch (e) {
+      console.error(e);
+      alert("Khôi phục thất bại. Dữ liệu hiện tại không bị thay đổi.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const clearFilters = () => setQuery(prev => ({ ...DEFAULT_LIBRARY_QUERY, sort: prev.sort }));
+
+  const filterDescription = [
+    filterLevel !== null && `buổi ôn ${srsBuckets.find(b => b.level === filterLevel)?.label}`,
+    filterDeck !== null && (filterDeck ? `bộ "${filterDeck}"` : 'chưa phân loại'),
+    filterTag && `#${filterTag}`,
+  ].filter(Boolean).join(' · ');
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  };
+
+  // Chế độ chọn: nhấp vào mục để chọn thay vì mở chi tiết
+  const handleItemClick = <T extends StudyItem>(item: T, open: (item: T) => void) => {
+    if (selectMode) toggleSelected(item.id!);
+    else open(item);
+  };
+
+  const selectedItems = () => [...words, ...sentences].filter(item => selectedIds.has(item.id!));
+
+  const moveSelectedToDeck = () => {
+    const items = selectedItems();
+    if (items.length === 0) return;
+    const existing = decks.map(deck => deck.name).join(', ');
+    const name = prompt(`Chuyển ${items.length} mục sang bộ thẻ (để trống = chưa phân loại)${existing ? `\nBộ thẻ hiện có: ${existing}` : ''}`, filterDeck || '');
+    if (name === null) return;
+    const deck = normalizeDeck(name) || undefined;
+    onUpdateItems(items.filter(item => item.deck !== deck).map(item => ({ ...item, deck })));
+    exitSelectMode();
+  };
+
+  const tagSelected = (mode: 'add' | 'remove') => {
+    const items = selectedItems();
+    if (items.length === 0) return;
+    const input = prompt(mode === 'add' ? `Gắn thẻ cho ${items.length} mục (cách nhau bởi dấu phẩy):` : `Bỏ thẻ khỏi ${items.length} mục (cách nhau bởi dấu phẩy):`, mode === 'remove' ? filterTag || '' : '');
+    if (input === null) return;
+    const changed = normalizeTags(input);
+    if (changed.length === 0) return;
+    onUpdateItems(items.map(item => {
+      const current = item.tags || [];
+      return { ...item, tags: mode === 'add' ? normalizeTags([...current, ...changed]) : current.filter(tag => !changed.includes(tag)) };
+    }));
+    exitSelectMode();
+  };
+
+  // Bộ thẻ và thẻ của một mục; nhấp vào thẻ để lọc theo thẻ đó
+  const renderLabels = (item: StudyItem) => (item.deck || item.tags?.length) ? (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {item.deck && <span className="flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-gray-800 text-[9px] font-bold text-gray-400"><Folder size={9} /> {item.deck}</span>}
+      {(item.tags || []).map(tag => (
+        <button key={tag} onClick={(e) => { e.stopPropagation(); setFilterTag(tag); }} className="px-1.5 py-0.5 rounded-md bg-purple-500/10 text-[9px] font-bold text-purple-400 hover:bg-purple-500/20 transition-colors">#{tag}</button>
+      ))}
+    </div>
+  ) : null;
+
+  const selectedRing = (id: string) => selectMode && selectedIds.has(id) ? 'ring-2 ring-emerald-500/60' : '';
+
+  const selectClass = "bg-gray-900 border border-gray-800 rounded-xl px-3 py-2 text-xs font-bold text-gray-300 focus:outline-none focus:border-emerald-500/50 transition-all";
+
   const getStatusInfo = (item: WordData | SentenceData) => {
     const level = item.srs_level || 0;
     if (level >= 4) return { text: "Thành thạo", color: "text-emerald-400", bg: "bg-emerald-500/10", border: "border-emerald-500/20", icon: <CheckCircle2 size={12} /> };
@@ -201,8 +293,12 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
                         <button onClick={() => setShowExportMenu(!showExportMenu)} className="flex items-center gap-2 text-gray-400 hover:text-emerald-400 transition-colors"><Download size={16} /><span className="text-[10px] uppercase font-bold tracking-wider">Xuất danh sách</span></button>
                         {showExportMenu && (
                           <div className="absolute top-full left-0 mt-2 w-48 bg-gray-800 border border-gray-700 rounded-xl shadow-2xl z-[60] overflow-hidden animate-in fade-in zoom-in-95 duration-200">
-                             <button onClick={exportToExcel} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 text-sm text-gray-200 border-b border-gray-700 transition-colors"><FileSpreadsheet size={16} className="text-emerald-500" /> Xuất Excel (.csv)</button>
-                             <button onClick={copyToClipboardForWord} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 text-sm text-gray-200 transition-colors"><FileText size={16} className="text-blue-500" /> Chép cho Word/Table</button>
+                             <button onClick={() => { setSpreadsheetMode('export'); setShowExportMenu(false); }} disabled={totalItemsCount === 0} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 disabled:opacity-50 text-sm text-gray-200 border-b border-gray-700 transition-colors"><FileSpreadsheet size={16} className="text-emerald-500" /> Xuất bảng tính (.csv/.tsv)</button>
+                             <button onClick={() => { setSpreadsheetMode('import'); setShowExportMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 text-sm text-gray-200 border-b border-gray-700 transition-colors"><Upload size={16} className="text-emerald-400" /> Nhập từ bảng tính</button>
+                             <button onClick={exportToAnki} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 text-sm text-gray-200 border-b border-gray-700 transition-colors"><Layers size={16} className="text-sky-400" /> Xuất Anki (.txt)</button>
+                             <button onClick={copyToClipboardForWord} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 text-sm text-gray-200 border-b border-gray-700 transition-colors"><FileText size={16} className="text-blue-500" /> Chép cho Word/Table</button>
+                             <button onClick={handleBackup} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 text-sm text-gray-200 border-b border-gray-700 transition-colors"><DatabaseBackup size={16} className="text-purple-400" /> Sao lưu toàn bộ (.json)</button>
+                             <button onClick={() => restoreInputRef.current?.click()} className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-700 text-sm text-gray-200 transition-colors"><ArchiveRestore size={16} className="text-orange-400" /> Khôi phục từ file</button>
                           </div>
                         )}
                     </div>
@@ -211,6 +307,45 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
             </div>
         </div>
 
+        {spreadsheetMode && (
+          <SpreadsheetModal mode={spreadsheetMode} words={words} sentences={sentences} onClose={() => setSpreadsheetMode(null)} onImport={onImportItems} />
+        )}
+
+        <input ref={restoreInputRef} type="file" accept="application/json,.json" onChange={handleRestoreFile} className="hidden" />
+
+        {/* Restore Panel */}
+        {pendingRestore && (
+          <div className="relative z-10 mb-8 p-6 bg-gray-800/80 rounded-2xl border border-orange-500/30 animate-in slide-in-from-top-4 duration-300">
+             <div className="flex items-start gap-4 mb-4">
+                <div className="bg-orange-500/20 p-2 rounded-lg text-orange-400"><ArchiveRestore size={20} /></div>
+                <div className="flex-1 min-w-0">
+                   <h3 className="font-bold text-white">Khôi phục dữ liệu</h3>
+                   <p className="text-xs text-gray-400 mt-0.5 truncate">{pendingRestore.fileName}</p>
+                </div>
+             </div>
+             {pendingRestore.backup ? (
+               <>
+                 <p className="text-sm text-gray-300 mb-4">
+                   {pendingRestore.backup.words.length} từ vựng · {pendingRestore.backup.sentences.length} mẫu câu · {pendingRestore.backup.reviews.length} lượt ôn
+                   <span className="text-gray-500"> (sao lưu ngày {new Date(pendingRestore.backup.exported_at).toLocaleDateString()})</span>
+                 </p>
+                 <div className="flex flex-col sm:flex-row gap-3">
+                   <button onClick={() => confirmRestore('merge')} disabled={isRestoring} className="flex-1 px-6 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl text-sm font-bold text-white transition-colors">Gộp với dữ liệu hiện có</button>
+                   <button onClick={() => confirmRestore('replace')} disabled={isRestoring} className="flex-1 px-6 py-2 bg-red-600/80 hover:bg-red-500 disabled:opacity-50 rounded-xl text-sm font-bold text-white transition-colors">Thay thế toàn bộ</button>
+                   <button onClick={() => setPendingRestore(null)} disabled={isRestoring} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl text-sm font-bold text-white transition-colors">Hủy</button>
+                 </div>
+               </>
+             ) : (
+               <div className="space-y-3">
+                 {pendingRestore.errors.map((err, i) => (
+                   <div key={i} className="flex items-center gap-2 text-xs text-red-400"><AlertTriangle size={12} /> {err}</div>
+                 ))}
+                 <button onClick={() => setPendingRestore(null)} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl text-sm font-bold text-white transition-colors">Đóng</button>
+               </div>
+             )}
+          </div>
+        )}
+
         {/* Sheets Config Panel */}
         {showSheetsConfig && (
           <div className="relative z-10 mb-8 p-6 bg-gray-800/80 rounded-2xl border border-blue-500/30 animate-in slide-in-from-top-4 duration-300">
@@ -231,7 +366,7 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
                 />
                 <button onClick={() => setShowSheetsConfig(false)} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl text-sm font-bold text-white transition-colors">Lưu lại</button>
              </div>
-             <div className="mt-3 flex items-center gap-2 text-[10px] text-gray-500 italic"><Info size={12} /> Dùng Apps Script `doPost` để nhận JSON.</div>
+             <div className="mt-3 flex items-center gap-2 text-[10px] text-gray-500 italic"><Info size={12} /> Dùng Apps Script trong README (doGet/doPost) để đồng bộ hai chiều.</div>
           </div>
         )}
 
@@ -243,9 +378,30 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
             </button>
           ))}
         </div>
+
+        {decks.length > 0 && (
+          <div className="relative z-10 flex flex-wrap items-center gap-2 pt-4">
+            <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-gray-500 mr-1"><Folder size={12} /> Bộ thẻ</span>
+            {decks.map(deck => (
+              <button key={deck.name} onClick={() => setFilterDeck(filterDeck === deck.name ? null : deck.name)} className={`px-3 py-1.5 rounded-xl border text-xs font-bold transition-all ${filterDeck === deck.name ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-gray-800/30 border-gray-800/50 text-gray-400 hover:border-gray-700'}`}>{deck.name} <span className="text-gray-600">{deck.count}</span></button>
+            ))}
+            {unsortedCount > 0 && (
+              <button onClick={() => setFilterDeck(filterDeck === '' ? null : '')} className={`px-3 py-1.5 rounded-xl border text-xs font-bold italic transition-all ${filterDeck === '' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-gray-800/30 border-gray-800/50 text-gray-500 hover:border-gray-700'}`}>Chưa phân loại <span className="text-gray-600">{unsortedCount}</span></button>
+            )}
+          </div>
+        )}
+
+        {tags.length > 0 && (
+          <div className="relative z-10 flex flex-wrap items-center gap-2 pt-3">
+            <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-gray-500 mr-1"><Tag size={12} /> Thẻ</span>
+            {tags.map(tag => (
+              <button key={tag.name} onClick={() => setFilterTag(filterTag === tag.name ? null : tag.name)} className={`px-2.5 py-1 rounded-lg text-[11px] font-bold transition-all ${filterTag === tag.name ? 'bg-purple-500/20 text-purple-300' : 'bg-purple-500/5 text-purple-400/70 hover:text-purple-300'}`}>#{tag.name} <span className="text-gray-600">{tag.count}</span></button>
+            ))}
+          </div>
+        )}
       </div>
 
-      {dueWordsCount > 0 && filterLevel === null && (
+      {dueWordsCount > 0 && !isNarrowed && (
         <div className="mb-12 animate-in fade-in slide-in-from-left duration-700">
            <div className="flex items-center justify-between mb-4 px-2">
               <div className="flex items-center gap-2"><div className="bg-orange-500 p-1.5 rounded-lg text-white shadow-lg shadow-orange-500/20"><Flame size={20} /></div><h2 className="text-2xl font-black text-white uppercase tracking-tight">Từ vựng cần ôn hôm nay</h2></div>
@@ -253,7 +409,7 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
            </div>
            <div className="flex gap-4 overflow-x-auto pb-4 custom-scrollbar snap-x">
               {dueWords.map((word) => (
-                <div key={word.word} onClick={() => onSelectWord(word)} className="snap-start min-w-[240px] bg-gray-900 border-2 border-orange-500/20 hover:border-orange-500/50 p-5 rounded-2xl cursor-pointer transition-all hover:-translate-y-1 shadow-xl relative overflow-hidden group">
+                <div key={word.id} onClick={() => onSelectWord(word)} className="snap-start min-w-[240px] bg-gray-900 border-2 border-orange-500/20 hover:border-orange-500/50 p-5 rounded-2xl cursor-pointer transition-all hover:-translate-y-1 shadow-xl relative overflow-hidden group">
                   <h4 className="text-xl font-bold text-white mb-1 group-hover:text-orange-400 transition-colors">{word.word}</h4>
                   <p className="text-sm text-gray-400 line-clamp-1 mb-3">{word.meaning_vi}</p>
                   <div className="flex justify-between items-center mt-2 pt-2 border-t border-gray-800/50">
@@ -266,7 +422,7 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
         </div>
       )}
 
-      {dueSentencesCount > 0 && filterLevel === null && (
+      {dueSentencesCount > 0 && !isNarrowed && (
         <div className="mb-12 animate-in fade-in slide-in-from-right duration-700">
            <div className="flex items-center justify-between mb-4 px-2">
               <div className="flex items-center gap-2"><div className="bg-blue-600 p-1.5 rounded-lg text-white shadow-lg shadow-blue-600/20"><MessageSquare size={20} /></div><h2 className="text-2xl font-black text-white uppercase tracking-tight">Mẫu câu cần ôn hôm nay</h2></div>
@@ -274,7 +430,7 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
            </div>
            <div className="flex gap-4 overflow-x-auto pb-4 custom-scrollbar snap-x">
               {dueSentences.map((s) => (
-                <div key={s.sentence} onClick={() => onSelectSentence(s)} className="snap-start min-w-[280px] bg-gray-900 border-2 border-blue-500/20 hover:border-blue-500/50 p-5 rounded-2xl cursor-pointer transition-all hover:-translate-y-1 shadow-xl relative group">
+                <div key={s.id} onClick={() => onSelectSentence(s)} className="snap-start min-w-[280px] bg-gray-900 border-2 border-blue-500/20 hover:border-blue-500/50 p-5 rounded-2xl cursor-pointer transition-all hover:-translate-y-1 shadow-xl relative group">
                   <h4 className="text-lg font-bold text-white mb-1 line-clamp-1 group-hover:text-blue-400 transition-colors">{s.sentence}</h4>
                   <p className="text-sm text-gray-400 line-clamp-1 mb-3">{s.meaning_vi}</p>
                   <div className="flex justify-between items-center mt-2 pt-2 border-t border-gray-800/50">
@@ -290,39 +446,84 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
       <div className="flex justify-between items-center mb-6">
           <div className="flex items-center gap-3">
               <div className="flex flex-col">
-                  <h2 className="text-2xl font-bold text-white px-2">{filterLevel === null ? 'Tất cả danh sách' : `Đang lọc: Buổi ôn tập ${srsBuckets.find(b => b.level === filterLevel)?.label}`}</h2>
-                  {filterLevel !== null && (<button onClick={() => setFilterLevel(null)} className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300 px-2 mt-1 transition-colors font-medium"><XCircle size={12} /> Bỏ lọc hiển thị</button>)}
+                  <h2 className="text-2xl font-bold text-white px-2">{hasFilter ? `Đang lọc: ${filterDescription}` : isNarrowed ? `Tìm thấy ${filteredWords.length + filteredSentences.length} mục` : 'Tất cả danh sách'}</h2>
+                  {isNarrowed && (
+                    <div className="flex items-center gap-3 px-2 mt-1">
+                      <button onClick={clearFilters} className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300 transition-colors font-medium"><XCircle size={12} /> Bỏ lọc hiển thị</button>
+                      {hasFilter && (
+                        <>
+                          <button onClick={() => onStartStudy('all', 'due', filter)} disabled={studyDueCount === 0} className="flex items-center gap-1 text-xs text-orange-400 hover:text-orange-300 disabled:text-gray-600 transition-colors font-medium"><Clock size={12} /> Ôn {studyDueCount} mục đến hạn</button>
+                          <button onClick={() => onStartStudy('all', 'all', filter)} disabled={studyPool.length === 0} className="flex items-center gap-1 text-xs text-orange-400 hover:text-orange-300 disabled:text-gray-600 transition-colors font-medium"><PlayCircle size={12} /> Ôn nhóm này</button>
+                        </>
+                      )}
+                    </div>
+                  )}
               </div>
               <button onClick={() => setIsTestMode(!isTestMode)} className={`flex items-center gap-2 px-4 py-2 rounded-xl border transition-all font-bold text-xs uppercase tracking-widest ${isTestMode ? 'bg-orange-500/10 border-orange-500/30 text-orange-400' : 'bg-gray-900 border-gray-800 text-gray-500 hover:text-gray-300'}`}>{isTestMode ? <EyeOff size={16} /> : <Eye size={16} />}<span className="hidden sm:inline">{isTestMode ? 'Đang ẩn nghĩa' : 'Kiểm tra trí nhớ'}</span></button>
+              <button onClick={() => selectMode ? exitSelectMode() : setSelectMode(true)} disabled={totalItemsCount === 0} className={`flex items-center gap-2 px-4 py-2 rounded-xl border transition-all font-bold text-xs uppercase tracking-widest ${selectMode ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-gray-900 border-gray-800 text-gray-500 hover:text-gray-300'}`}><SquareCheck size={16} /><span className="hidden sm:inline">{selectMode ? 'Đang chọn' : 'Chọn'}</span></button>
           </div>
           <div className="flex bg-gray-900 p-1 rounded-xl border border-gray-800 shadow-sm"><button onClick={() => setViewMode('list')} className={`p-2 rounded-lg transition-all ${viewMode === 'list' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500'}`}><List size={20} /></button><button onClick={() => setViewMode('grid')} className={`p-2 rounded-lg transition-all ${viewMode === 'grid' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500'}`}><LayoutGrid size={20} /></button></div>
       </div>
 
+      {totalItemsCount > 0 && (
+        <div className="flex flex-col sm:flex-row gap-2 mb-6">
+          <div className="relative flex-1">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-600" />
+            <input
+              type="text"
+              value={query.search}
+              onChange={(e) => updateQuery({ search: e.target.value })}
+              placeholder="Tìm theo từ, nghĩa, định nghĩa, ví dụ..."
+              className="w-full bg-gray-900 border border-gray-800 rounded-xl py-2 pl-9 pr-9 text-sm text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50 transition-all"
+            />
+            {query.search && <button onClick={() => updateQuery({ search: '' })} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-600 hover:text-white"><XCircle size={14} /></button>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <select value={query.sort} onChange={(e) => updateQuery({ sort: e.target.value as LibrarySort })} className={selectClass}>
+              {(Object.keys(SORT_LABELS) as LibrarySort[]).map(sort => <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>)}
+            </select>
+            <select value={query.due} onChange={(e) => updateQuery({ due: e.target.value as DueFilter })} className={selectClass}>
+              <option value="all">Mọi trạng thái</option>
+              <option value="due">Đến hạn ôn</option>
+              <option value="not_due">Chưa đến hạn</option>
+            </select>
+            {wordPartsOfSpeech.length > 0 && (
+              <select value={query.partOfSpeech ?? ''} onChange={(e) => updateQuery({ partOfSpeech: e.target.value || null })} className={selectClass}>
+                <option value="">Mọi từ loại</option>
+                {wordPartsOfSpeech.map(pos => <option key={pos} value={pos}>{pos}</option>)}
+              </select>
+            )}
+            <button onClick={() => updateQuery({ hasMemoryAid: !query.hasMemoryAid })} title="Chỉ hiện mục có mẹo nhớ hoặc ghi chú" className={`flex items-center gap-1.5 px-3 py-2 rounded-xl border text-xs font-bold transition-all ${query.hasMemoryAid ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400' : 'bg-gray-900 border-gray-800 text-gray-500 hover:text-gray-300'}`}><Lightbulb size={14} /> Mẹo nhớ</button>
+          </div>
+        </div>
+      )}
+
       <div className="space-y-12 pb-20">
           {words.length > 0 && (
             <div className="space-y-4">
-                <div className="flex items-center gap-2 px-2 text-gray-500 uppercase text-[10px] font-black tracking-[0.2em] mb-2"><BookOpen size={14} /> TỪ VỰNG ({words.filter(w => filterLevel === null || (filterLevel === 4 ? (w.srs_level||0) >= 4 : (w.srs_level||0) === filterLevel)).length})</div>
+                <div className="flex items-center gap-2 px-2 text-gray-500 uppercase text-[10px] font-black tracking-[0.2em] mb-2"><BookOpen size={14} /> TỪ VỰNG ({filteredWords.length})</div>
                 <div className={viewMode === 'grid' ? "grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-5" : "flex flex-col gap-3"}>
-                    {words.filter(w => filterLevel === null || (filterLevel === 4 ? (w.srs_level||0) >= 4 : (w.srs_level||0) === filterLevel)).map((word) => {
+                    {filteredWords.map((word) => {
                             const isMastered = (word.srs_level || 0) >= 4;
-                            const shouldBlur = isTestMode && !revealedItems.has(word.word);
+                            const shouldBlur = isTestMode && !revealedItems.has(word.id!);
                             const status = getStatusInfo(word);
                             return (viewMode === 'list' ? (
-                                <div key={word.word} onClick={() => onSelectWord(word)} className={`group flex flex-col sm:flex-row sm:items-stretch bg-gray-900/80 hover:bg-gray-800/80 border ${isMastered ? 'border-emerald-900/40' : 'border-gray-800'} hover:border-gray-700 p-4 rounded-2xl transition-all cursor-pointer shadow-sm relative overflow-hidden`}>
+                                <div key={word.id} onClick={() => handleItemClick(word, onSelectWord)} className={`group flex flex-col sm:flex-row sm:items-stretch bg-gray-900/80 hover:bg-gray-800/80 border ${isMastered ? 'border-emerald-900/40' : 'border-gray-800'} hover:border-gray-700 p-4 rounded-2xl transition-all cursor-pointer shadow-sm relative overflow-hidden ${selectedRing(word.id!)}`}>
                                     <div className="flex-1 flex items-center min-w-0 sm:max-w-[220px]">
-                                        <div className="flex-1 min-w-0 pr-4"><h3 className={`text-xl font-bold truncate ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{word.word}</h3><div className="flex items-center gap-2 mt-0.5"><span className="text-[10px] font-mono text-gray-600">/{word.ipa}/</span><div className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full border text-[9px] font-black uppercase tracking-tight ${status.bg} ${status.color} ${status.border}`}>{status.icon} {status.text}</div></div></div>
+                                        <div className="flex-1 min-w-0 pr-4"><h3 className={`text-xl font-bold truncate ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{word.word}</h3><div className="flex items-center gap-2 mt-0.5"><span className="text-[10px] font-mono text-gray-600">/{word.ipa}/</span><div className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full border text-[9px] font-black uppercase tracking-tight ${status.bg} ${status.color} ${status.border}`}>{status.icon} {status.text}</div></div>{renderLabels(word)}</div>
                                         <div className="hidden sm:block w-px bg-gray-800 h-10 my-auto"></div>
                                     </div>
                                     <div className="flex-[3] min-w-0 relative sm:px-6 flex flex-col justify-center py-2 sm:py-0">
-                                        {shouldBlur && (<div onClick={(e) => toggleReveal(e, word.word)} className="absolute inset-0 z-10 bg-gray-900/40 backdrop-blur-md flex items-center justify-center cursor-help rounded-lg group-hover:bg-gray-900/20 transition-all"><span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400 opacity-40 group-hover:opacity-100 transition-opacity">Nhấp để xem nghĩa</span></div>)}
+                                        {shouldBlur && (<div onClick={(e) => toggleReveal(e, word.id!)} className="absolute inset-0 z-10 bg-gray-900/40 backdrop-blur-md flex items-center justify-center cursor-help rounded-lg group-hover:bg-gray-900/20 transition-all"><span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400 opacity-40 group-hover:opacity-100 transition-opacity">Nhấp để xem nghĩa</span></div>)}
                                         <div className={`transition-all duration-300 ${shouldBlur ? 'blur-sm select-none opacity-20' : 'blur-0 opacity-100'}`}><div className="text-sm text-emerald-400/90 font-bold truncate mb-1">{word.meaning_vi}</div><div className="text-xs space-y-0.5"><p className="text-gray-400 italic line-clamp-1">"{word.example_en}"</p><p className="text-gray-600 line-clamp-1">→ {word.example_vi}</p></div></div>
                                     </div>
-                                    <div className="flex items-center gap-4 shrink-0 justify-between sm:justify-end sm:pl-4"><div className="flex items-center gap-1"><button onClick={(e) => { e.stopPropagation(); onRemoveWord(word.word); }} className="p-2 text-gray-600 hover:text-red-400 hover:bg-gray-700/50 rounded-lg transition-all"><Trash2 size={18} /></button></div></div>
+                                    <div className="flex items-center gap-4 shrink-0 justify-between sm:justify-end sm:pl-4"><div className="flex items-center gap-1"><button onClick={(e) => { e.stopPropagation(); onRemoveWord(word.id!); }} className="p-2 text-gray-600 hover:text-red-400 hover:bg-gray-700/50 rounded-lg transition-all"><Trash2 size={18} /></button></div></div>
                                 </div>
                             ) : (
-                                <div key={word.word} className={`group bg-gray-900 hover:bg-gray-800 border ${isMastered ? 'border-emerald-900/50 hover:border-emerald-500/30' : 'border-gray-800 hover:border-gray-600'} rounded-2xl p-5 transition-all duration-300 cursor-pointer relative flex flex-col h-full`} onClick={() => onSelectWord(word)}>
-                                    <div className="flex justify-between items-start mb-3"><h3 className={`text-xl font-bold transition-colors truncate pr-2 ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{word.word}</h3><div className="flex items-center gap-2"><button onClick={(e) => { e.stopPropagation(); onRemoveWord(word.word); }} className="text-gray-600 hover:text-red-400 p-1.5 rounded-lg opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={16} /></button></div></div>
+                                <div key={word.id} className={`group bg-gray-900 hover:bg-gray-800 border ${isMastered ? 'border-emerald-900/50 hover:border-emerald-500/30' : 'border-gray-800 hover:border-gray-600'} rounded-2xl p-5 transition-all duration-300 cursor-pointer relative flex flex-col h-full ${selectedRing(word.id!)}`} onClick={() => handleItemClick(word, onSelectWord)}>
+                                    <div className="flex justify-between items-start mb-3"><h3 className={`text-xl font-bold transition-colors truncate pr-2 ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{word.word}</h3><div className="flex items-center gap-2"><button onClick={(e) => { e.stopPropagation(); onRemoveWord(word.id!); }} className="text-gray-600 hover:text-red-400 p-1.5 rounded-lg opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={16} /></button></div></div>
                                     <p className="text-gray-400 text-sm line-clamp-2 mb-4 flex-grow font-medium">{word.meaning_vi}</p>
+                                    {renderLabels(word)}
                                     <div className="flex items-center justify-between mt-auto pt-4 border-t border-gray-800"><div className="flex items-center gap-2"><span className="text-xs font-mono text-gray-500 bg-gray-950 px-2 py-1 rounded border border-gray-800">/{word.ipa}/</span></div><div className="flex gap-1">{[...Array(5)].map((_, i) => (<div key={i} className={`w-1.5 h-1.5 rounded-full ${i < (word.srs_level || 0) ? 'bg-emerald-500' : 'bg-gray-800'}`}></div>))}</div></div>
                                 </div>
                             ));
@@ -333,25 +534,26 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
 
           {sentences.length > 0 && (
             <div className="space-y-4">
-                <div className="flex items-center gap-2 px-2 text-gray-500 uppercase text-[10px] font-black tracking-[0.2em] mb-2"><MessageSquare size={14} /> MẪU CÂU ({sentences.filter(s => filterLevel === null || (filterLevel === 4 ? (s.srs_level||0) >= 4 : (s.srs_level||0) === filterLevel)).length})</div>
+                <div className="flex items-center gap-2 px-2 text-gray-500 uppercase text-[10px] font-black tracking-[0.2em] mb-2"><MessageSquare size={14} /> MẪU CÂU ({filteredSentences.length})</div>
                 <div className={viewMode === 'grid' ? "grid grid-cols-1 md:grid-cols-2 gap-5" : "flex flex-col gap-3"}>
-                    {sentences.filter(s => filterLevel === null || (filterLevel === 4 ? (s.srs_level||0) >= 4 : (s.srs_level||0) === filterLevel)).map((s) => {
+                    {filteredSentences.map((s) => {
                             const isMastered = (s.srs_level || 0) >= 4;
-                            const shouldBlur = isTestMode && !revealedItems.has(s.sentence);
+                            const shouldBlur = isTestMode && !revealedItems.has(s.id!);
                             const status = getStatusInfo(s);
                             return (viewMode === 'list' ? (
-                                <div key={s.sentence} onClick={() => onSelectSentence(s)} className={`group flex flex-col sm:flex-row sm:items-stretch bg-gray-900/80 hover:bg-gray-800/80 border ${isMastered ? 'border-emerald-900/40' : 'border-gray-800'} hover:border-gray-700 p-5 rounded-2xl transition-all cursor-pointer shadow-sm relative overflow-hidden`}>
-                                    <div className="flex-1 flex items-center min-w-0 sm:max-w-[300px]"><div className="flex-1 min-w-0 pr-4"><h3 className={`text-lg font-bold truncate ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{s.sentence}</h3><div className="flex items-center gap-2 mt-0.5"><div className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full border text-[9px] font-black uppercase tracking-tight ${status.bg} ${status.color} ${status.border}`}>{status.icon} {status.text}</div><span className="text-[10px] text-gray-600 font-bold uppercase tracking-widest">{s.naturalness_score}% Natural</span></div></div><div className="hidden sm:block w-px bg-gray-800 h-10 my-auto"></div></div>
+                                <div key={s.id} onClick={() => handleItemClick(s, onSelectSentence)} className={`group flex flex-col sm:flex-row sm:items-stretch bg-gray-900/80 hover:bg-gray-800/80 border ${isMastered ? 'border-emerald-900/40' : 'border-gray-800'} hover:border-gray-700 p-5 rounded-2xl transition-all cursor-pointer shadow-sm relative overflow-hidden ${selectedRing(s.id!)}`}>
+                                    <div className="flex-1 flex items-center min-w-0 sm:max-w-[300px]"><div className="flex-1 min-w-0 pr-4"><h3 className={`text-lg font-bold truncate ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{s.sentence}</h3><div className="flex items-center gap-2 mt-0.5"><div className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full border text-[9px] font-black uppercase tracking-tight ${status.bg} ${status.color} ${status.border}`}>{status.icon} {status.text}</div><span className="text-[10px] text-gray-600 font-bold uppercase tracking-widest">{s.naturalness_score}% Natural</span></div>{renderLabels(s)}</div><div className="hidden sm:block w-px bg-gray-800 h-10 my-auto"></div></div>
                                     <div className="flex-[3] min-w-0 relative sm:px-6 flex flex-col justify-center py-2 sm:py-0">
-                                        {shouldBlur && (<div onClick={(e) => toggleReveal(e, s.sentence)} className="absolute inset-0 z-10 bg-gray-900/40 backdrop-blur-md flex items-center justify-center cursor-help rounded-lg group-hover:bg-gray-900/20 transition-all"><span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400 opacity-40 group-hover:opacity-100 transition-opacity">Nhấp để xem nghĩa</span></div>)}
+                                        {shouldBlur && (<div onClick={(e) => toggleReveal(e, s.id!)} className="absolute inset-0 z-10 bg-gray-900/40 backdrop-blur-md flex items-center justify-center cursor-help rounded-lg group-hover:bg-gray-900/20 transition-all"><span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400 opacity-40 group-hover:opacity-100 transition-opacity">Nhấp để xem nghĩa</span></div>)}
                                         <div className={`transition-all duration-300 ${shouldBlur ? 'blur-sm select-none opacity-20' : 'blur-0 opacity-100'}`}><div className="text-sm text-emerald-400/90 font-bold truncate mb-1">{s.meaning_vi}</div><div className="text-[10px] text-gray-500 line-clamp-1 italic">{s.usage_context}</div></div>
                                     </div>
-                                    <div className="flex items-center gap-4 shrink-0 justify-between sm:justify-end sm:pl-4"><div className="flex items-center gap-1"><button onClick={(e) => { e.stopPropagation(); onRemoveSentence(s.sentence); }} className="p-2 text-gray-600 hover:text-red-400 hover:bg-gray-700/50 rounded-lg transition-all"><Trash2 size={18} /></button></div></div>
+                                    <div className="flex items-center gap-4 shrink-0 justify-between sm:justify-end sm:pl-4"><div className="flex items-center gap-1"><button onClick={(e) => { e.stopPropagation(); onRemoveSentence(s.id!); }} className="p-2 text-gray-600 hover:text-red-400 hover:bg-gray-700/50 rounded-lg transition-all"><Trash2 size={18} /></button></div></div>
                                 </div>
                             ) : (
-                                <div key={s.sentence} className={`group bg-gray-900 hover:bg-gray-800 border ${isMastered ? 'border-emerald-900/50 hover:border-emerald-500/30' : 'border-gray-800 hover:border-gray-600'} rounded-2xl p-5 transition-all duration-300 cursor-pointer relative flex flex-col h-full`} onClick={() => onSelectSentence(s)}>
-                                    <div className="flex justify-between items-start mb-3"><h3 className={`text-lg font-bold transition-colors truncate pr-2 ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{s.sentence}</h3><div className="flex items-center gap-2"><button onClick={(e) => { e.stopPropagation(); onRemoveSentence(s.sentence); }} className="text-gray-600 hover:text-red-400 p-1.5 rounded-lg opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={16} /></button></div></div>
+                                <div key={s.id} className={`group bg-gray-900 hover:bg-gray-800 border ${isMastered ? 'border-emerald-900/50 hover:border-emerald-500/30' : 'border-gray-800 hover:border-gray-600'} rounded-2xl p-5 transition-all duration-300 cursor-pointer relative flex flex-col h-full ${selectedRing(s.id!)}`} onClick={() => handleItemClick(s, onSelectSentence)}>
+                                    <div className="flex justify-between items-start mb-3"><h3 className={`text-lg font-bold transition-colors truncate pr-2 ${isMastered ? 'text-emerald-400' : 'text-white'}`}>{s.sentence}</h3><div className="flex items-center gap-2"><button onClick={(e) => { e.stopPropagation(); onRemoveSentence(s.id!); }} className="text-gray-600 hover:text-red-400 p-1.5 rounded-lg opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={16} /></button></div></div>
                                     <p className="text-gray-400 text-sm line-clamp-2 mb-4 flex-grow font-medium">{s.meaning_vi}</p>
+                                    {renderLabels(s)}
                                     <div className="flex items-center justify-between mt-auto pt-4 border-t border-gray-800"><div className="flex items-center gap-2"><span className="text-xs font-black uppercase text-blue-500">{s.naturalness_score}% Natural</span></div><div className="flex gap-1">{[...Array(5)].map((_, i) => (<div key={i} className={`w-1.5 h-1.5 rounded-full ${i < (s.srs_level || 0) ? 'bg-blue-500' : 'bg-gray-800'}`}></div>))}</div></div>
                                 </div>
                             ));
@@ -360,6 +562,18 @@ export const FlashcardPage: React.FC<FlashcardPageProps> = ({
             </div>
           )}
 
+          {selectMode && (
+            <div className="sticky bottom-4 z-40 flex flex-wrap items-center gap-2 p-3 bg-gray-900/95 backdrop-blur-xl border border-emerald-500/30 rounded-2xl shadow-2xl animate-in slide-in-from-bottom-4 duration-300">
+              <span className="px-2 text-sm font-bold text-white">Đã chọn {selectedIds.size}</span>
+              <button onClick={() => setSelectedIds(new Set([...filteredWords, ...filteredSentences].map(item => item.id!)))} className="px-3 py-2 rounded-xl text-xs font-bold text-gray-400 hover:text-white hover:bg-gray-800 transition-colors">Chọn tất cả</button>
+              <div className="flex-1"></div>
+              <button onClick={moveSelectedToDeck} disabled={selectedIds.size === 0} className="flex items-center gap-1.5 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl text-xs font-bold text-white transition-colors"><FolderInput size={14} /> Chuyển bộ thẻ</button>
+              <button onClick={() => tagSelected('add')} disabled={selectedIds.size === 0} className="flex items-center gap-1.5 px-3 py-2 bg-purple-600/80 hover:bg-purple-500 disabled:opacity-50 rounded-xl text-xs font-bold text-white transition-colors"><Tag size={14} /> Gắn thẻ</button>
+              <button onClick={() => tagSelected('remove')} disabled={selectedIds.size === 0} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-xl text-xs font-bold text-gray-300 transition-colors">Bỏ thẻ</button>
+              <button onClick={exitSelectMode} className="p-2 text-gray-500 hover:text-white transition-colors"><XCircle size={18} /></button>
+            </div>
+          )}
+
           {totalItemsCount === 0 && (
             <div className="py-20 flex flex-col items-center justify-center text-gray-800 opacity-20 select-none">
                <Info size={64} className="mb-4" />
@@ -0,0 +1,198 @@
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BookOpenText, PencilLine, BookmarkPlus, Square, RefreshCw } from 'lucide-react';
+import { WordData } from '../types';
+import { StudyItem } from '../services/studyQueue';
+import { ReadingToken, WordStatus, tokenizeText, buildLevelIndex, wordStatus, unknownWords } from '../services/reading';
+import { BatchEntry, lookupBatch } from '../services/batchLookup';
+import { isAbortError } from '../services/requestControl';
+
+interface ReadingPageProps {
+  words: WordData[];
+  onLookup: (word: string, context?: string) => void;
+  onImportItems: (items: StudyItem[]) => number;
+  isLookingUp?: boolean;
+}
+
+const TEXT_KEY = 'reading_text';
+const MAX_BULK = 100;
+
+const STATUS_CLASS: Record<WordStatus, string> = {
+  unknown: 'text-amber-200 bg-amber-500/10 border-b border-amber-500/40',
+  learning: 'text-blue-300 bg-blue-500/10',
+  mastered: 'text-emerald-400',
+  common: 'text-gray-300',
+};
+
+const STATUS_LABEL: Record<Exclude<WordStatus, 'common'>, string> = {
+  unknown: 'Từ mới',
+  learning: 'Đang học',
+  mastered: 'Đã thuộc',
+};
+
+export const ReadingPage: React.FC<ReadingPageProps> = ({ words, onLookup, onImportItems, isLookingUp }) => {
+  const [text, setText] = useState(() => localStorage.getItem(TEXT_KEY) || '');
+  const [isReading, setIsReading] = useState(() => !!localStorage.getItem(TEXT_KEY));
+  const [activeSentence, setActiveSentence] = useState<number | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => localStorage.setItem(TEXT_KEY, text), [text]);
+
+  // Rời trang giữa chừng thì hủy các lượt tra còn lại
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const doc = useMemo(() => tokenizeText(text), [text]);
+  const levelIndex = useMemo(() => buildLevelIndex(words), [words]);
+  const statuses = useMemo(() => {
+    const result = new Map<string, WordStatus>();
+    doc.paragraphs.flat().forEach(token => { if (token.word && !result.has(token.word)) result.set(token.word, wordStatus(token.word, levelIndex)); });
+    return result;
+  }, [doc, levelIndex]);
+  const unknown = useMemo(() => unknownWords(doc, levelIndex), [doc, levelIndex]);
+  const selected = unknown.filter(entry => !excluded.has(entry.word)).slice(0, MAX_BULK);
+
+  const counts = useMemo(() => {
+    const result = { unknown: 0, learning: 0, mastered: 0 };
+    statuses.forEach(status => { if (status !== 'common') result[status]++; });
+    return result;
+  }, [statuses]);
+
+  const handleWordClick = (token: ReadingToken) => {
+    setActiveSentence(token.sentence);
+    onLookup(token.text, doc.sentences[token.sentence]);
+  };
+
+  const toggleExcluded = (word: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(word)) next.delete(word); else next.add(word);
+      return next;
+    });
+  };
+
+  const handleBulkSave = async () => {
+    if (selected.length === 0 || isSaving) return;
+    const targets = selected;
+    const current: BatchEntry[] = targets.map(target => ({ input: target.word, status: 'pending', skipped: false }));
+    setEntries(current);
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsSaving(true);
+    try {
+      await lookupBatch(targets.map(target => target.word), targets.map((_, i) => i), (index, patch) => {
+        current[index] = { ...current[index], ...patch };
+        setEntries([...current]);
+      }, controller.signal, targets.map(target => target.sentence));
+    } catch (err) {
+      if (!isAbortError(err)) console.error(err);
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsSaving(false);
+    }
+    // Dừng giữa chừng vẫn lưu những từ đã tra xong; câu trong bài đã là ví dụ chính kèm bản dịch
+    const items = current.flatMap(entry => entry.status === 'done' && entry.data ? [entry.data] : []);
+    const failed = current.filter(entry => entry.status === 'error').length;
+    const added = items.length ? onImportItems(items) : 0;
+    alert(`Đã lưu ${added} từ mới vào thư viện${failed ? `, ${failed} từ tra lỗi` : ''}.`);
+    setEntries([]);
+  };
+
+  const finished = entries.filter(entry => entry.status === 'done' || entry.status === 'error').length;
+
+  return (
+    <div className="w-full max-w-3xl pb-12 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between gap-3 mb-4 px-2">
+        <div className="flex items-center gap-3">
+          <div className="bg-emerald-500/10 p-2 rounded-lg text-emerald-400"><BookOpenText size={20} /></div>
+          <h2 className="text-2xl font-bold text-white">Đọc hiểu</h2>
+        </div>
+        {isReading ? (
+          <button onClick={() => setIsReading(false)} disabled={isSaving} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold text-gray-400 hover:text-white hover:bg-gray-900 disabled:opacity-40 transition-all">
+            <PencilLine size={14} /> Đổi văn bản
+          </button>
+        ) : (
+          <button onClick={() => { setIsReading(true); setExcluded(new Set()); setActiveSentence(null); }} disabled={!text.trim()} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl text-xs font-bold text-white transition-colors">
+            Bắt đầu đọc
+          </button>
+        )}
+      </div>
+
+      {!isReading ? (
+        <textarea
+          autoFocus
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Dán một bài báo, đoạn truyện hay email tiếng Anh vào đây..."
+          className="w-full bg-gray-950/80 border border-gray-800 rounded-2xl p-4 text-sm text-white outline-none focus:border-emerald-500/50 min-h-[360px] resize-y transition-all placeholder:text-gray-700"
+        />
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3 px-2 mb-3 text-[10px] font-black uppercase tracking-widest">
+            {(Object.keys(STATUS_LABEL) as (keyof typeof STATUS_LABEL)[]).map(status => (
+              <span key={status} className={`px-2 py-1 rounded-lg ${STATUS_CLASS[status]}`}>{STATUS_LABEL[status]} · {counts[status]}</span>
+            ))}
+            <span className="flex items-center gap-1.5 text-gray-600 normal-case tracking-normal font-medium">
+              {isLookingUp ? <><RefreshCw size={10} className="animate-spin" /> Đang tra nghĩa...</> : 'Bấm vào một từ để tra nghĩa'}
+            </span>
+          </div>
+
+          <div className="bg-gray-900/50 border border-gray-800 rounded-2xl p-5 sm:p-6 text-base leading-loose mb-4">
+            {doc.paragraphs.map((tokens, p) => (
+              <p key={p} className="mb-4 last:mb-0 text-gray-300">
+                {tokens.map((token, i) => {
+                  const highlight = activeSentence === token.sentence ? 'bg-gray-800/80' : '';
+                  if (!token.word) return <span key={i} className={highlight}>{token.text}</span>;
+                  const status = statuses.get(token.word) || 'common';
+                  const muted = status === 'unknown' && excluded.has(token.word) ? 'opacity-50' : '';
+                  return (
+                    <span key={i} onClick={() => handleWordClick(token)} className={`cursor-pointer rounded-sm px-0.5 hover:underline decoration-emerald-500/50 underline-offset-2 transition-colors ${STATUS_CLASS[status]} ${highlight} ${muted}`}>
+                      {token.text}
+                    </span>
+                  );
+                })}
+              </p>
+            ))}
+          </div>
+
+          {unknown.length > 0 && (
+            <div className="bg-gray-900/50 border border-gray-800 rounded-2xl p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Từ mới trong bài · bấm để bỏ chọn</span>
+                {isSaving ? (
+                  <button onClick={() => controllerRef.current?.abort()} className="flex items-center gap-1.5 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-xl text-xs font-bold text-gray-300 transition-colors">
+                    <Square size={12} /> Dừng
+                  </button>
+                ) : (
+                  <button onClick={handleBulkSave} disabled={selected.length === 0} className="flex items-center gap-1.5 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl text-xs font-bold text-white transition-colors">
+                    <BookmarkPlus size={14} /> Lưu {selected.length} từ mới
+                  </button>
+                )}
+              </div>
+              {entries.length > 0 && (
+                <div className="mb-3">
+                  <div className="flex items-center gap-2 text-[10px] text-gray-500 mb-1.5"><RefreshCw size={10} className="animate-spin" /> Đang tra {finished}/{entries.length}</div>
+                  <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(finished / entries.length) * 100}%` }}></div>
+                  </div>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1.5">
+                {unknown.map(entry => (
+                  <button key={entry.word} onClick={() => toggleExcluded(entry.word)} disabled={isSaving} title={entry.sentence} className={`px-2.5 py-1 rounded-lg border text-xs font-bold transition-all ${excluded.has(entry.word) ? 'bg-gray-950 border-gray-800 text-gray-600 line-through' : 'bg-amber-500/10 border-amber-500/30 text-amber-200 hover:bg-amber-500/20'}`}>
+                    {entry.word}{entry.count > 1 && <span className="ml-1 text-[9px] text-gray-500">×{entry.count}</span>}
+                  </button>
+                ))}
+              </div>
+              {unknown.length - excluded.size > MAX_BULK && (
+                <p className="text-[10px] text-amber-400 mt-3">Mỗi lần chỉ lưu {MAX_BULK} từ đầu tiên.</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
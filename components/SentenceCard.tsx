@@ -1,30 +1,35 @@
 
 import React, { useState, useRef } from 'react';
 import { SentenceData, PronunciationFeedback } from '../types';
-import { Volume2, Bookmark, Mic, MicOff, RefreshCw, Star, Info, MessageSquare, ArrowRight, Cloud } from 'lucide-react';
+import { Volume2, Bookmark, Mic, MicOff, RefreshCw, Star, Info, MessageSquare, ArrowRight, Cloud, StickyNote } from 'lucide-react';
 import { checkPronunciation } from '../services/geminiService';
+import { useOnlineStatus } from '../services/pwa';
+import { sentenceAt } from '../services/reading';
 
 interface SentenceCardProps {
   data: SentenceData;
   isSaved: boolean;
   onToggleSave: () => void;
-  sheetsUrl?: string;
-  onLookup?: (word: string) => void;
+  onSyncToSheets?: () => Promise<void>;
+  onLookup?: (word: string, context?: string) => void;
 }
 
-const ClickableText: React.FC<{ text: string, className?: string, onLookup?: (word: string) => void }> = ({ text, className, onLookup }) => {
+const ClickableText: React.FC<{ text: string, className?: string, onLookup?: (word: string, context?: string) => void }> = ({ text, className, onLookup }) => {
   if (!onLookup) return <span className={className}>{text}</span>;
   const parts = text.split(/(\s+)/);
+  let offset = 0;
   return (
     <span className={className}>
       {parts.map((part, i) => {
+        const start = offset;
+        offset += part.length;
         if (/\s+/.test(part)) return part;
         const cleanWord = part.replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, "");
         if (!cleanWord || cleanWord.length < 2) return part;
         return (
           <span 
             key={i} 
-            onClick={(e) => { e.stopPropagation(); onLookup(cleanWord); }}
+            onClick={(e) => { e.stopPropagation(); onLookup(cleanWord, sentenceAt(text, start)); }}
             className="hover:underline hover:text-emerald-400 cursor-pointer transition-colors decoration-emerald-500/50 underline-offset-2"
           >
             {part}
@@ -35,33 +40,23 @@ const ClickableText: React.FC<{ text: string, className?: string, onLookup?: (wo
   );
 };
 
-export const SentenceCard: React.FC<SentenceCardProps> = ({ data, isSaved, onToggleSave, sheetsUrl, onLookup }) => {
+export const SentenceCard: React.FC<SentenceCardProps> = ({ data, isSaved, onToggleSave, onSyncToSheets, onLookup }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [feedback, setFeedback] = useState<PronunciationFeedback | null>(null);
+  const isOnline = useOnlineStatus();
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
 
   const syncToSheets = async () => {
-    if (!sheetsUrl || isSyncing) return;
+    if (!onSyncToSheets || isSyncing) return;
     setIsSyncing(true);
     try {
-      await fetch(sheetsUrl, {
-        method: 'POST',
-        mode: 'no-cors',
-        body: JSON.stringify({
-          type: 'Sentence',
-          sentence: data.sentence,
-          meaning_vi: data.meaning_vi,
-          usage_context: data.usage_context,
-          naturalness: data.naturalness_score,
-          grammar: data.grammar_breakdown
-        })
-      });
+      await onSyncToSheets();
       alert(`Đã thêm mẫu câu vào Google Sheets!`);
     } catch (e) {
-      alert("Lỗi đồng bộ.");
+      alert(`Lỗi đồng bộ: ${e instanceof Error ? e.message : e}`);
     } finally {
       setIsSyncing(false);
     }
@@ -122,7 +117,7 @@ export const SentenceCard: React.FC<SentenceCardProps> = ({ data, isSaved, onTog
              <p className="text-lg text-emerald-400 font-medium">{data.meaning_vi}</p>
           </div>
           <div className="flex gap-2">
-            {sheetsUrl && (
+            {onSyncToSheets && (
               <button 
                 onClick={syncToSheets} 
                 disabled={isSyncing}
@@ -135,13 +130,19 @@ export const SentenceCard: React.FC<SentenceCardProps> = ({ data, isSaved, onTog
             <button onClick={playAudio} className="p-3 bg-gray-700 hover:bg-emerald-600 text-white rounded-xl"><Volume2 size={20} /></button>
           </div>
         </div>
-        <button onClick={isRecording ? stopRecording : startRecording} disabled={isChecking} className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold transition-all ${isRecording ? 'bg-red-500 text-white' : 'bg-blue-600 hover:bg-blue-500 text-white'}`}>
+        <button onClick={isRecording ? stopRecording : startRecording} disabled={isChecking || (!isOnline && !isRecording)} className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold transition-all disabled:bg-gray-700 disabled:text-gray-400 ${isRecording ? 'bg-red-500 text-white' : 'bg-blue-600 hover:bg-blue-500 text-white'}`}>
           {isChecking ? <RefreshCw className="animate-spin" size={18} /> : isRecording ? <MicOff size={18} /> : <Mic size={18} />}
-          {isRecording ? "Đang nghe..." : "Luyện nói câu này"}
+          {isRecording ? "Đang nghe..." : isOnline ? "Luyện nói câu này" : "Luyện nói cần kết nối mạng"}
         </button>
       </div>
 
       <div className="p-6 space-y-6">
+        {data.notes && (
+          <div className="bg-yellow-950/10 p-4 rounded-xl border border-yellow-500/20">
+            <div className="flex items-center gap-2 text-yellow-500 text-[10px] font-bold uppercase mb-1"><StickyNote size={12} /> Ghi chú của tôi</div>
+            <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line">{data.notes}</p>
+          </div>
+        )}
         <div>
           <div className="flex items-center gap-2 text-white font-bold mb-2"><Info size={16} className="text-blue-400" /> Cấu trúc ngữ pháp:</div>
           <div className="text-gray-300 text-sm bg-gray-900/50 p-4 rounded-xl border border-gray-700 leading-relaxed">
@@ -0,0 +1,174 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, FileSpreadsheet, Upload, RefreshCw, Sparkles } from 'lucide-react';
+import { WordData, SentenceData } from '../types';
+import { StudyItem } from '../services/studyQueue';
+import { lookupWord } from '../services/geminiService';
+import { downloadFile } from '../services/download';
+import {
+  Delimiter, ColumnMapping, SPREADSHEET_COLUMNS, DEFAULT_EXPORT_COLUMNS,
+  buildSpreadsheet, parseDelimited, guessMapping, rowsToItems, needsLookup, fillMissing
+} from '../services/spreadsheet';
+
+interface SpreadsheetModalProps {
+  mode: 'export' | 'import';
+  words: WordData[];
+  sentences: SentenceData[];
+  onClose: () => void;
+  onImport: (items: StudyItem[]) => number;
+}
+
+const EXPORT_COLUMNS_KEY = 'spreadsheet_export_columns';
+
+export const SpreadsheetModal: React.FC<SpreadsheetModalProps> = ({ mode, words, sentences, onClose, onImport }) => {
+  const [delimiter, setDelimiter] = useState<Delimiter>(',');
+  const [columns, setColumns] = useState<string[]>(() => {
+    try {
+      const saved = localStorage.getItem(EXPORT_COLUMNS_KEY);
+      return saved ? JSON.parse(saved) : DEFAULT_EXPORT_COLUMNS;
+    } catch (e) { return DEFAULT_EXPORT_COLUMNS; }
+  });
+
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fallbackType, setFallbackType] = useState<'word' | 'sentence'>('word');
+  const [fillWithAi, setFillWithAi] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => { if (e.key === 'Escape' && !progress) onClose(); };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose, progress]);
+
+  const header = hasHeader ? rows[0] || [] : (rows[0] || []).map((_, i) => `Cột ${i + 1}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const preview = useMemo(() => rowsToItems(dataRows, mapping, fallbackType), [dataRows, mapping, fallbackType]);
+
+  const toggleColumn = (key: string) => {
+    const next = columns.includes(key) ? columns.filter(c => c !== key) : SPREADSHEET_COLUMNS.map(c => c.key).filter(k => k === key || columns.includes(k));
+    setColumns(next);
+    localStorage.setItem(EXPORT_COLUMNS_KEY, JSON.stringify(next));
+  };
+
+  const handleExport = () => {
+    const isTsv = delimiter === '\t';
+    // BOM để Excel nhận đúng UTF-8 tiếng Việt
+    const content = "\uFEFF" + buildSpreadsheet([...words, ...sentences], columns, delimiter);
+    downloadFile(content, `FlashVocab_Export_${new Date().toISOString().slice(0, 10)}.${isTsv ? 'tsv' : 'csv'}`, isTsv ? 'text/tab-separated-values;charset=utf-8;' : 'text/csv;charset=utf-8;');
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseDelimited(await file.text());
+    setFileName(file.name);
+    setRows(parsed);
+    setMapping(guessMapping(hasHeader ? parsed[0] || [] : []));
+  };
+
+  const handleImport = async () => {
+    if (preview.length === 0 || progress) return;
+    let items = preview;
+    if (fillWithAi) {
+      const targets = items.filter(needsLookup);
+      setProgress({ done: 0, total: targets.length });
+      const filled: StudyItem[] = [];
+      for (const item of items) {
+        if (!needsLookup(item)) { filled.push(item); continue; }
+        try {
+          filled.push(fillMissing(item as WordData, await lookupWord((item as WordData).word)));
+        } catch (err) {
+          console.error(err);
+          filled.push(item);
+        }
+        setProgress(prev => prev && { ...prev, done: prev.done + 1 });
+      }
+      items = filled;
+    }
+    const added = onImport(items);
+    setProgress(null);
+    alert(`Đã nhập ${added} mục mới${items.length > added ? `, bỏ qua ${items.length - added} mục đã có` : ''}.`);
+    onClose();
+  };
+
+  const importableColumns = SPREADSHEET_COLUMNS.filter(c => c.key === 'type' || c.set);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="absolute inset-0" onClick={() => !progress && onClose()}></div>
+      <div className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6 animate-in zoom-in-95 duration-300">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-emerald-500/10 p-2 rounded-lg text-emerald-400">{mode === 'export' ? <FileSpreadsheet size={20} /> : <Upload size={20} />}</div>
+            <h2 className="text-xl font-bold text-white">{mode === 'export' ? 'Xuất bảng tính' : 'Nhập từ bảng tính'}</h2>
+          </div>
+          <button onClick={onClose} disabled={!!progress} className="p-2 hover:bg-gray-800 rounded-full text-gray-400 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        {mode === 'export' ? (
+          <>
+            <div className="flex bg-gray-950 p-0.5 rounded-lg border border-gray-800 w-fit mb-4">
+              <button onClick={() => setDelimiter(',')} className={`px-4 py-1.5 rounded-md text-xs font-black transition-all ${delimiter === ',' ? 'bg-emerald-500 text-gray-950' : 'text-gray-500'}`}>CSV</button>
+              <button onClick={() => setDelimiter('\t')} className={`px-4 py-1.5 rounded-md text-xs font-black transition-all ${delimiter === '\t' ? 'bg-emerald-500 text-gray-950' : 'text-gray-500'}`}>TSV</button>
+            </div>
+            <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest mb-2">Chọn cột</div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-6">
+              {SPREADSHEET_COLUMNS.map(column => (
+                <label key={column.key} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input type="checkbox" checked={columns.includes(column.key)} onChange={() => toggleColumn(column.key)} className="accent-emerald-500" />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+            <button onClick={handleExport} disabled={columns.length === 0} className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl font-bold text-white transition-colors">Tải xuống ({words.length + sentences.length} mục)</button>
+          </>
+        ) : (
+          <>
+            <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:bg-gray-800 file:text-white file:font-bold mb-4" />
+            {rows.length > 0 && (
+              <>
+                <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-300">
+                  <span className="text-gray-500 truncate max-w-[200px]">{fileName}</span>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={hasHeader} onChange={(e) => { setHasHeader(e.target.checked); setMapping(guessMapping(e.target.checked ? rows[0] : [])); }} className="accent-emerald-500" />
+                    Dòng đầu là tiêu đề
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Mặc định:
+                    <select value={fallbackType} onChange={(e) => setFallbackType(e.target.value as 'word' | 'sentence')} className="bg-gray-950 border border-gray-700 rounded-lg px-2 py-1">
+                      <option value="word">Từ vựng</option>
+                      <option value="sentence">Mẫu câu</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest mb-2">Ghép cột</div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+                  {importableColumns.map(column => (
+                    <label key={column.key} className="flex items-center justify-between gap-2 text-xs text-gray-300 bg-gray-950/50 border border-gray-800 rounded-lg px-3 py-1.5">
+                      <span className={column.key === 'text' ? 'font-bold text-white' : ''}>{column.label}</span>
+                      <select value={mapping[column.key] ?? ''} onChange={(e) => setMapping({ ...mapping, [column.key]: e.target.value === '' ? null : Number(e.target.value) })} className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 max-w-[140px]">
+                        <option value="">—</option>
+                        {header.map((h, i) => <option key={i} value={i}>{h || `Cột ${i + 1}`}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-300 mb-6 cursor-pointer">
+                  <input type="checkbox" checked={fillWithAi} onChange={(e) => setFillWithAi(e.target.checked)} className="accent-purple-500" />
+                  <Sparkles size={14} className="text-purple-400" /> Tra cứu AI để điền các trường còn thiếu ({preview.filter(needsLookup).length} từ)
+                </label>
+                <button onClick={handleImport} disabled={preview.length === 0 || !!progress} className="w-full flex items-center justify-center gap-2 py-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-xl font-bold text-white transition-colors">
+                  {progress ? <><RefreshCw size={16} className="animate-spin" /> Đang tra cứu {progress.done}/{progress.total}</> : `Nhập ${preview.length} mục`}
+                </button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+
+import React, { useMemo, useState, useEffect } from 'react';
+import { WordData, SentenceData, ReviewLogEntry } from '../types';
+import { Activity, Flame, Calendar, TrendingUp, Target, Trophy } from 'lucide-react';
+import { getReviewLog } from '../services/reviewLog';
+import { buildHeatmap, retentionByMode, dueForecast, libraryGrowth, reviewStreaks } from '../services/stats';
+
+interface StatsPageProps {
+  words: WordData[];
+  sentences: SentenceData[];
+}
+
+const MODE_LABELS = { flashcard: 'Thẻ ghi nhớ', typing: 'Gõ từ', quiz: 'Trắc nghiệm' };
+
+const heatColor = (count: number) => {
+  if (count === 0) return 'bg-gray-800';
+  if (count < 5) return 'bg-emerald-900';
+  if (count < 15) return 'bg-emerald-700';
+  if (count < 30) return 'bg-emerald-500';
+  return 'bg-emerald-300';
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+
+export const StatsPage: React.FC<StatsPageProps> = ({ words, sentences }) => {
+  const [log, setLog] = useState<ReviewLogEntry[]>([]);
+  useEffect(() => {
+    getReviewLog().then(setLog).catch(console.error);
+  }, [words, sentences]);
+  const items = useMemo(() => [...words, ...sentences], [words, sentences]);
+
+  const heatmap = useMemo(() => buildHeatmap(log), [log]);
+  const retention = useMemo(() => retentionByMode(log), [log]);
+  const forecast = useMemo(() => dueForecast(items), [items]);
+  const growth = useMemo(() => libraryGrowth(items, log), [items, log]);
+  const streaks = useMemo(() => reviewStreaks(log), [log]);
+
+  const maxForecast = Math.max(1, ...forecast.map(f => f.count));
+  const maxGrowth = Math.max(1, ...growth.map(g => g.total));
+
+  return (
+    <div className="w-full animate-in fade-in slide-in-from-bottom-4 duration-500 pb-20 space-y-6">
+      <div className="flex items-center gap-5 mb-2">
+        <div className="bg-gradient-to-br from-emerald-500 to-teal-600 p-4 rounded-2xl shadow-lg shadow-emerald-500/20"><Activity size={32} className="text-white" /></div>
+        <div>
+          <h2 className="text-3xl font-bold text-white tracking-tight">Thống kê</h2>
+          <p className="text-gray-400 mt-1 font-medium">{log.length} lượt ôn · {items.length} mục trong thư viện</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-gray-900 border border-gray-800 rounded-2xl p-5 flex items-center gap-4">
+          <div className="bg-orange-500/10 p-3 rounded-xl text-orange-400"><Flame size={24} /></div>
+          <div><div className="text-3xl font-black text-white">{streaks.current}</div><div className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Chuỗi hiện tại (ngày)</div></div>
+        </div>
+        <div className="bg-gray-900 border border-gray-800 rounded-2xl p-5 flex items-center gap-4">
+          <div className="bg-yellow-500/10 p-3 rounded-xl text-yellow-400"><Trophy size={24} /></div>
+          <div><div className="text-3xl font-black text-white">{streaks.longest}</div><div className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Chuỗi dài nhất</div></div>
+        </div>
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl p-5">
+        <div className="flex items-center gap-2 text-white font-bold mb-4"><Calendar size={16} className="text-emerald-400" /> Lượt ôn mỗi ngày</div>
+        <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-2">
+          {heatmap.map((column, w) => (
+            <div key={w} className="flex flex-col gap-1">
+              {column.map(cell => (
+                <div key={cell.date} title={`${formatDate(cell.date)}: ${cell.count} lượt`} className={`w-3 h-3 rounded-sm ${heatColor(cell.count)}`}></div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl p-5">
+        <div className="flex items-center gap-2 text-white font-bold mb-4"><Target size={16} className="text-blue-400" /> Tỉ lệ ghi nhớ thực tế</div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {retention.map(stat => (
+            <div key={stat.mode} className="bg-gray-950/50 border border-gray-800 rounded-xl p-4">
+              <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest mb-1">{MODE_LABELS[stat.mode]}</div>
+              <div className="text-2xl font-black text-white">{stat.rate === null ? '—' : `${Math.round(stat.rate * 100)}%`}</div>
+              <div className="text-[10px] text-gray-600">{stat.passed}/{stat.reviews} lượt ôn thẻ cũ</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl p-5">
+        <div className="flex items-center gap-2 text-white font-bold mb-4"><Calendar size={16} className="text-purple-400" /> Dự báo 30 ngày tới</div>
+        <div className="flex items-end gap-1 h-32">
+          {forecast.map((day, i) => (
+            <div key={day.date} title={`${formatDate(day.date)}: ${day.count} mục`} className="flex-1 flex flex-col justify-end h-full">
+              <div className={`rounded-t ${i === 0 ? 'bg-orange-500' : 'bg-purple-500/70'}`} style={{ height: `${(day.count / maxForecast) * 100}%`, minHeight: day.count ? 2 : 0 }}></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-gray-600 mt-2"><span>Hôm nay</span><span>{formatDate(forecast[forecast.length - 1].date)}</span></div>
+      </div>
+
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl p-5">
+        <div className="flex items-center gap-2 text-white font-bold mb-4"><TrendingUp size={16} className="text-emerald-400" /> Tăng trưởng thư viện</div>
+        <div className="flex items-end gap-2 h-32">
+          {growth.map(week => (
+            <div key={week.date} title={`${formatDate(week.date)}: ${week.total} mục`} className="flex-1 flex flex-col justify-end h-full">
+              <div className="bg-emerald-500/70 rounded-t" style={{ height: `${(week.total / maxGrowth) * 100}%`, minHeight: week.total ? 2 : 0 }}></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-gray-600 mt-2"><span>{formatDate(growth[0].date)}</span><span>Tuần này</span></div>
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,37 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { WordData, PronunciationFeedback } from '../types';
+import { PronunciationFeedback } from '../types';
 import { 
     X, RotateCw, CheckCircle, Brain, ChevronLeft, ChevronRight, 
     Clock, Volume2, VolumeX, Mic, MicOff, RefreshCw, Star, 
     AlertTriangle, Keyboard, ListChecks, Layers, Check, AlertCircle 
 } from 'lucide-react';
 import { checkPronunciation } from '../services/geminiService';
+import { StudyItem } from '../services/studyQueue';
+import { StudyCard, toStudyCard, gradeAnswer, getCardId } from '../services/studyCards';
+import { Rating, SchedulerId, SCHEDULERS, getSchedulerId, setSchedulerId } from '../services/scheduler';
+import { appendReview } from '../services/reviewLog';
+import { useOnlineStatus } from '../services/pwa';
 
 interface StudySessionProps {
-  words: WordData[];
+  items: StudyItem[];
   onComplete: () => void;
-  onUpdateWord: (word: WordData) => void;
+  onUpdateWord: (item: StudyItem) => void;
 }
 
 type StudyMode = 'flashcard' | 'typing' | 'quiz';
 
-const SRS_INTERVALS = [1, 3, 7, 14, 30, 90, 180];
+const RATINGS: Rating[] = ['fail', 'hard', 'good', 'easy'];
 
-const getNextIntervalDays = (currentLevel: number, rating: 'fail' | 'hard' | 'good' | 'easy') => {
-    let newLevel = currentLevel;
-    switch (rating) {
-      case 'fail': newLevel = 0; break;
-      case 'hard': newLevel = Math.max(0, newLevel); break;
-      case 'good': newLevel = Math.min(newLevel + 1, SRS_INTERVALS.length - 1); break;
-      case 'easy': newLevel = Math.min(newLevel + 2, SRS_INTERVALS.length - 1); break;
-    }
-    return SRS_INTERVALS[newLevel];
+const RATING_STYLES: Record<Rating, { label: string; className: string; badge: string }> = {
+  fail: { label: 'Quên', className: 'bg-red-900/20 border border-red-500/30 text-red-400', badge: 'border-red-500/30' },
+  hard: { label: 'Khó', className: 'bg-orange-900/20 border border-orange-500/30 text-orange-400', badge: 'border-orange-500/30' },
+  good: { label: 'Thuộc', className: 'bg-blue-900/20 border border-blue-500/30 text-blue-400', badge: 'border-blue-500/30' },
+  easy: { label: 'Dễ', className: 'bg-emerald-900/20 border border-emerald-500/30 text-emerald-400', badge: 'border-emerald-500/30' },
 };
 
-export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, onUpdateWord }) => {
-  const [queue, setQueue] = useState<WordData[]>([]);
+export const StudySession: React.FC<StudySessionProps> = ({ items, onComplete, onUpdateWord }) => {
+  const [queue, setQueue] = useState<StudyCard[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [studyMode, setStudyMode] = useState<StudyMode | null>(null);
@@ -38,6 +39,9 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
   const [autoRead, setAutoRead] = useState<boolean>(() => {
     return localStorage.getItem('vocab_auto_read') === 'true';
   });
+  const [schedulerId, setSchedulerIdState] = useState<SchedulerId>(getSchedulerId);
+  const isOnline = useOnlineStatus();
+  const scheduler = SCHEDULERS[schedulerId];
 
   const [userInput, setUserInput] = useState('');
   const [quizOptions, setQuizOptions] = useState<string[]>([]);
@@ -52,12 +56,15 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
   
   // Ref for auto-focusing the typing input
   const typingInputRef = useRef<HTMLInputElement>(null);
+  // Thời điểm thẻ hiện ra, để đo thời gian trả lời
+  const shownAtRef = useRef(Date.now());
 
   useEffect(() => {
-    if (words.length > 0) setQueue(words);
-  }, [words]);
+    if (items.length > 0) setQueue(items.map(toStudyCard));
+  }, [items]);
 
-  const currentWord = queue[currentIndex];
+  const currentCard = queue[currentIndex];
+  const isSentenceCard = currentCard?.kind === 'sentence';
 
   const speak = useCallback((text: string) => {
     window.speechSynthesis.cancel();
@@ -67,28 +74,35 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
     window.speechSynthesis.speak(utterance);
   }, []);
 
-  const generateQuizOptions = useCallback((correctWord: string) => {
-    if (!words || words.length < 2) return [correctWord];
-    const distractors = words
-        .filter(w => w.word !== correctWord)
+  const generateQuizOptions = useCallback((card: StudyCard) => {
+    // Phương án nhiễu lấy cùng loại thẻ (từ với từ, câu với câu)
+    const distractors = queue
+        .filter(c => c.kind === card.kind && c.answer !== card.answer)
         .sort(() => Math.random() - 0.5)
         .slice(0, 3)
-        .map(w => w.word);
-    return [...distractors, correctWord].sort(() => Math.random() - 0.5);
-  }, [words]);
-
-  const handleRate = useCallback((rating: 'fail' | 'hard' | 'good' | 'easy') => {
-    if (!currentWord) return;
-    let newLevel = currentWord.srs_level || 0;
-    switch (rating) {
-      case 'fail': newLevel = 0; setSessionStats(prev => ({ ...prev, forgotten: prev.forgotten + 1 })); break;
-      case 'hard': newLevel = Math.max(0, newLevel); break;
-      case 'good': newLevel = Math.min(newLevel + 1, SRS_INTERVALS.length - 1); break;
-      case 'easy': newLevel = Math.min(newLevel + 2, SRS_INTERVALS.length - 1); break;
-    }
-    const days = SRS_INTERVALS[newLevel];
-    const nextReviewDate = Date.now() + (days * 24 * 60 * 60 * 1000);
-    onUpdateWord({ ...currentWord, srs_level: newLevel, next_review: nextReviewDate });
+        .map(c => c.answer);
+    return [...distractors, card.answer].sort(() => Math.random() - 0.5);
+  }, [queue]);
+
+  const handleRate = useCallback((rating: Rating) => {
+    if (!currentCard) return;
+    if (rating === 'fail') setSessionStats(prev => ({ ...prev, forgotten: prev.forgotten + 1 }));
+    const now = Date.now();
+    const next = scheduler.schedule(currentCard.item, rating, now);
+    appendReview({
+      card_id: getCardId(currentCard.item),
+      card_type: currentCard.kind,
+      timestamp: now,
+      rating,
+      mode: studyMode || 'flashcard',
+      ...(studyMode !== 'flashcard' && isCorrectAnswer !== null ? { correct: isCorrectAnswer } : {}),
+      scheduler: scheduler.id,
+      response_ms: now - shownAtRef.current,
+      prev_interval: currentCard.item.interval_days ?? 0,
+      new_interval: next.interval_days ?? 0,
+      next_review: next.next_review ?? now,
+    }).catch(console.error);
+    onUpdateWord({ ...currentCard.item, ...next });
     setSessionStats(prev => ({ ...prev, reviewed: prev.reviewed + 1 }));
     if (currentIndex < queue.length - 1) {
       setIsFlipped(false);
@@ -96,7 +110,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
     } else {
       setCurrentIndex(prev => prev + 1);
     }
-  }, [currentWord, currentIndex, queue.length, onUpdateWord]);
+  }, [currentCard, currentIndex, queue.length, onUpdateWord, scheduler, studyMode, isCorrectAnswer]);
 
   const handleFlip = useCallback(() => {
     if (isRecording || studyMode !== 'flashcard') return; 
@@ -106,19 +120,20 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
   const handleCheckTyping = useCallback((e?: React.FormEvent) => {
       if (e) e.preventDefault();
       if (!userInput.trim()) return;
-      const correct = userInput.trim().toLowerCase() === currentWord.word.toLowerCase();
+      const correct = gradeAnswer(currentCard, userInput);
       setIsCorrectAnswer(correct);
       setIsAnswered(true);
-      if (correct) speak(currentWord.word);
-  }, [userInput, currentWord, speak]);
+      if (correct) speak(currentCard.answer);
+  }, [userInput, currentCard, speak]);
 
   const handleSelectQuiz = useCallback((option: string) => {
       if (isAnswered) return;
-      const correct = option === currentWord.word;
+      const correct = option === currentCard.answer;
+      setUserInput(option);
       setIsCorrectAnswer(correct);
       setIsAnswered(true);
-      if (correct) speak(currentWord.word);
-  }, [isAnswered, currentWord, speak]);
+      if (correct) speak(currentCard.answer);
+  }, [isAnswered, currentCard, speak]);
 
   // Study Shortcuts
   useEffect(() => {
@@ -144,7 +159,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
         return;
       }
 
-      if (e.key.toLowerCase() === 'v') speak(currentWord?.word || '');
+      if (e.key.toLowerCase() === 'v' && !isInput) speak(currentCard?.answer || '');
 
       // SRS Ratings (1-4)
       const canRate = (studyMode === 'flashcard' && isFlipped) || (studyMode !== 'flashcard' && isAnswered);
@@ -158,16 +173,17 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [studyMode, handleFlip, handleRate, isFlipped, isAnswered, currentWord, handleCheckTyping, onComplete, speak]);
+  }, [studyMode, handleFlip, handleRate, isFlipped, isAnswered, currentCard, handleCheckTyping, onComplete, speak]);
 
   useEffect(() => {
-    if (currentWord) {
-        if (autoRead && studyMode === 'flashcard' && !isFlipped) speak(currentWord.word);
-        if (studyMode === 'quiz') setQuizOptions(generateQuizOptions(currentWord.word));
+    if (currentCard) {
+        if (autoRead && studyMode === 'flashcard' && !isFlipped) speak(currentCard.answer);
+        if (studyMode === 'quiz') setQuizOptions(generateQuizOptions(currentCard));
         setUserInput('');
         setIsAnswered(false);
         setIsCorrectAnswer(null);
         setFeedback(null);
+        if (!isFlipped) shownAtRef.current = Date.now();
 
         // Auto-focus the input when a new word is loaded in typing mode
         if (studyMode === 'typing') {
@@ -176,13 +192,18 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
           }, 50);
         }
     }
-  }, [currentIndex, currentWord, studyMode, autoRead, isFlipped, speak, generateQuizOptions]);
+  }, [currentIndex, currentCard, studyMode, autoRead, isFlipped, speak, generateQuizOptions]);
+
+  const changeScheduler = (id: SchedulerId) => {
+    setSchedulerIdState(id);
+    setSchedulerId(id);
+  };
 
   const toggleAutoRead = () => {
     const newState = !autoRead;
     setAutoRead(newState);
     localStorage.setItem('vocab_auto_read', String(newState));
-    if (newState && currentWord) speak(currentWord.word);
+    if (newState && currentCard) speak(currentCard.answer);
   };
 
   const startRecording = async (e: React.MouseEvent) => {
@@ -201,7 +222,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
           const base64Audio = (reader.result as string).split(',')[1];
           setIsChecking(true);
           try {
-            const result = await checkPronunciation(currentWord.word, base64Audio, 'audio/webm');
+            const result = await checkPronunciation(currentCard.answer, base64Audio, 'audio/webm');
             setFeedback(result);
           } catch (err) { console.error(err); } finally { setIsChecking(false); }
         };
@@ -210,7 +231,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
       recorder.start();
       setIsRecording(true);
       setFeedback(null);
-      setTimeout(() => { if (recorder.state === 'recording') stopRecording(); }, 3000);
+      setTimeout(() => { if (recorder.state === 'recording') stopRecording(); }, isSentenceCard ? 5000 : 3000);
     } catch (err) { alert("Cần quyền Micro."); }
   };
 
@@ -230,7 +251,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
                     <Layers size={40} className="text-emerald-500" />
                 </div>
                 <h2 className="text-3xl font-bold text-white mb-2">Cài đặt buổi học</h2>
-                <p className="text-gray-400 mb-8">Chọn cách ôn tập {queue.length} từ vựng hôm nay.</p>
+                <p className="text-gray-400 mb-8">Chọn cách ôn tập {queue.length} mục hôm nay.</p>
                 <div className="grid grid-cols-1 gap-4 mb-8">
                     <button onClick={() => setStudyMode('flashcard')} className="flex items-center gap-4 p-4 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-2xl transition-all group relative">
                         <div className="bg-emerald-500/20 p-3 rounded-xl text-emerald-500 group-hover:scale-110 transition-transform"><RotateCw size={24} /></div>
@@ -248,6 +269,14 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
                         <span className="absolute right-4 bg-gray-950 px-1.5 rounded border border-gray-800 text-[10px] text-gray-600 font-bold">3</span>
                     </button>
                 </div>
+                <div className="flex items-center justify-center gap-2 mb-6">
+                    <span className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Thuật toán lặp lại</span>
+                    <div className="flex bg-gray-950 p-0.5 rounded-lg border border-gray-800">
+                        {Object.values(SCHEDULERS).map(s => (
+                            <button key={s.id} onClick={() => changeScheduler(s.id)} className={`px-3 py-1 rounded-md text-[10px] font-black transition-all ${schedulerId === s.id ? 'bg-emerald-500 text-gray-950' : 'text-gray-500 hover:text-gray-300'}`}>{s.label}</button>
+                        ))}
+                    </div>
+                </div>
                 <button onClick={onComplete} className="text-gray-500 hover:text-white text-sm font-medium">Hủy bỏ [Esc]</button>
              </div>
         </div>
@@ -270,7 +299,6 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
     );
   }
 
-  const wordLevel = currentWord?.srs_level || 0;
 
   return (
     <div className="fixed inset-0 z-[110] bg-gray-950 flex flex-col p-4 sm:p-6 animate-in fade-in duration-300">
@@ -292,20 +320,25 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
             {studyMode === 'flashcard' && (
                 <div className="relative w-full aspect-[4/5] cursor-pointer group transition-all duration-500 transform-style-3d" style={{ transform: isFlipped ? 'rotateY(180deg)' : 'rotateY(0deg)' }} onClick={handleFlip}>
                     <div className="absolute inset-0 backface-hidden bg-gray-900 border-2 border-gray-700 rounded-3xl flex flex-col items-center justify-center p-8 shadow-2xl overflow-hidden">
-                        <span className="text-emerald-500 text-sm font-bold tracking-widest uppercase mb-4">English</span>
-                        <h2 className="text-5xl sm:text-6xl font-bold text-white text-center mb-6">{currentWord.word}</h2>
+                        <span className={`${isSentenceCard ? 'text-blue-400' : 'text-emerald-500'} text-sm font-bold tracking-widest uppercase mb-4`}>{isSentenceCard ? 'Mẫu câu' : 'English'}</span>
+                        <h2 className={`${isSentenceCard ? 'text-2xl sm:text-3xl leading-snug' : 'text-5xl sm:text-6xl'} font-bold text-white text-center mb-6`}>{currentCard.answer}</h2>
+                        {feedback && (
+                            <div className={`mb-4 text-xs font-bold px-3 py-1.5 rounded-xl border ${feedback.is_correct ? 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' : 'text-amber-400 border-amber-500/30 bg-amber-500/10'}`}>{feedback.score}/100 · {feedback.feedback_vi}</div>
+                        )}
                         <div className="flex items-center gap-4">
-                            <button onClick={(e) => { e.stopPropagation(); speak(currentWord.word); }} className="p-4 bg-gray-800 hover:bg-gray-700 text-emerald-400 rounded-full border border-gray-700 relative group/btn"><Volume2 size={28} /><span className="absolute -bottom-1 -right-1 text-[8px] bg-gray-950 px-1 rounded border border-gray-800">V</span></button>
-                            <button onClick={startRecording} disabled={isChecking} className="p-4 bg-gray-800 text-blue-400 rounded-full border border-gray-700 relative"><Mic size={28} /><span className="absolute -bottom-1 -right-1 text-[8px] bg-gray-950 px-1 rounded border border-gray-800">R</span></button>
+                            <button onClick={(e) => { e.stopPropagation(); speak(currentCard.answer); }} className="p-4 bg-gray-800 hover:bg-gray-700 text-emerald-400 rounded-full border border-gray-700 relative group/btn"><Volume2 size={28} /><span className="absolute -bottom-1 -right-1 text-[8px] bg-gray-950 px-1 rounded border border-gray-800">V</span></button>
+                            <button onClick={isRecording ? stopRecording : startRecording} disabled={isChecking || (!isOnline && !isRecording)} title={isOnline ? undefined : 'Cần kết nối mạng để chấm phát âm'} className={`p-4 rounded-full border relative disabled:opacity-40 ${isRecording ? 'bg-red-500 text-white border-red-400 animate-pulse' : 'bg-gray-800 text-blue-400 border-gray-700'}`}>{isChecking ? <RefreshCw size={28} className="animate-spin" /> : isRecording ? <MicOff size={28} /> : <Mic size={28} />}<span className="absolute -bottom-1 -right-1 text-[8px] bg-gray-950 px-1 rounded border border-gray-800">R</span></button>
                         </div>
                         <p className="absolute bottom-6 text-gray-500 text-sm animate-pulse flex items-center gap-2">[Dấu cách] để lật</p>
                     </div>
                     <div className="absolute inset-0 backface-hidden bg-gray-800 border-2 border-emerald-500/30 rounded-3xl flex flex-col p-8 shadow-2xl overflow-y-auto" style={{ transform: 'rotateY(180deg)' }}>
                         <div className="flex-1 space-y-4 flex flex-col justify-center">
-                            <div className="text-center"><h3 className="text-3xl font-bold text-emerald-400 mb-1">{currentWord.meaning_vi}</h3><p className="text-blue-300 italic text-sm">{currentWord.part_of_speech}</p></div>
+                            <div className="text-center"><h3 className={`${isSentenceCard ? 'text-2xl' : 'text-3xl'} font-bold text-emerald-400 mb-1`}>{currentCard.prompt}</h3><p className="text-blue-300 italic text-sm">{currentCard.hint}</p></div>
                             <div className="space-y-2">
-                                <div className="bg-gray-900/50 p-3 rounded-xl border-l-4 border-emerald-500"><p className="text-white text-base">{currentWord.example_en}</p></div>
-                                <div className="bg-gray-900/50 p-3 rounded-xl border-l-4 border-yellow-500/50"><p className="text-gray-300 text-sm">{currentWord.root_word_mnemonic}</p></div>
+                                {currentCard.example && <div className="bg-gray-900/50 p-3 rounded-xl border-l-4 border-emerald-500"><p className="text-white text-base">{currentCard.example}</p></div>}
+                                {currentCard.notes.map((note, i) => (
+                                    <div key={i} className="bg-gray-900/50 p-3 rounded-xl border-l-4 border-yellow-500/50"><p className="text-gray-300 text-sm">{note}</p></div>
+                                ))}
                             </div>
                         </div>
                     </div>
@@ -313,7 +346,7 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
             )}
             {studyMode === 'typing' && (
                 <div className="w-full bg-gray-900 border-2 border-gray-700 rounded-3xl p-8 shadow-2xl">
-                    <div className="text-center mb-8"><h3 className="text-3xl font-bold text-white mb-2">{currentWord.meaning_vi}</h3><p className="text-gray-500 text-sm italic">{currentWord.part_of_speech}</p></div>
+                    <div className="text-center mb-8"><h3 className={`${isSentenceCard ? 'text-2xl' : 'text-3xl'} font-bold text-white mb-2`}>{currentCard.prompt}</h3><p className="text-gray-500 text-sm italic">{currentCard.hint}</p></div>
                     <form onSubmit={handleCheckTyping} className="relative mb-6">
                         <input 
                           ref={typingInputRef}
@@ -323,20 +356,20 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
                           disabled={isAnswered} 
                           autoComplete="off"
                           onChange={(e) => setUserInput(e.target.value)} 
-                          className={`w-full bg-gray-800 text-2xl text-center font-bold text-white p-4 rounded-2xl border-2 transition-all outline-none ${isAnswered ? isCorrectAnswer ? 'border-emerald-500 bg-emerald-500/10' : 'border-red-500 bg-red-500/10' : 'border-gray-700 focus:border-blue-500'}`} 
-                          placeholder="Gõ từ..." 
+                          className={`w-full bg-gray-800 ${isSentenceCard ? 'text-lg' : 'text-2xl'} text-center font-bold text-white p-4 rounded-2xl border-2 transition-all outline-none ${isAnswered ? isCorrectAnswer ? 'border-emerald-500 bg-emerald-500/10' : 'border-red-500 bg-red-500/10' : 'border-gray-700 focus:border-blue-500'}`} 
+                          placeholder={isSentenceCard ? "Gõ câu tiếng Anh..." : "Gõ từ..."} 
                         />
-                        {isAnswered && <div className="text-center mt-4 text-emerald-400 text-xl font-black">{currentWord.word}</div>}
+                        {isAnswered && <div className={`text-center mt-4 text-emerald-400 ${isSentenceCard ? 'text-base' : 'text-xl'} font-black`}>{currentCard.answer}</div>}
                     </form>
                     {!isAnswered && <button onClick={handleCheckTyping} className="w-full bg-blue-600 py-4 rounded-2xl font-bold">[Space] Kiểm tra</button>}
                 </div>
             )}
             {studyMode === 'quiz' && (
                 <div className="w-full bg-gray-900 border-2 border-gray-700 rounded-3xl p-8 shadow-2xl">
-                    <div className="text-center mb-10"><h3 className="text-3xl font-bold text-white mb-2">{currentWord.meaning_vi}</h3></div>
+                    <div className="text-center mb-10"><h3 className={`${isSentenceCard ? 'text-2xl' : 'text-3xl'} font-bold text-white mb-2`}>{currentCard.prompt}</h3></div>
                     <div className="grid grid-cols-1 gap-3">
                         {quizOptions.map((option, idx) => (
-                            <button key={idx} disabled={isAnswered} onClick={() => handleSelectQuiz(option)} className={`w-full p-4 rounded-2xl border-2 font-bold text-lg text-left transition-all ${isAnswered ? option === currentWord.word ? 'bg-emerald-500 border-emerald-400 text-gray-950' : option === userInput ? 'bg-red-500 border-red-400 text-gray-950' : 'bg-gray-800 opacity-50' : 'bg-gray-800 border-gray-700 hover:bg-gray-700'}`}>
+                            <button key={idx} disabled={isAnswered} onClick={() => handleSelectQuiz(option)} className={`w-full p-4 rounded-2xl border-2 font-bold ${isSentenceCard ? 'text-sm' : 'text-lg'} text-left transition-all ${isAnswered ? option === currentCard.answer ? 'bg-emerald-500 border-emerald-400 text-gray-950' : option === userInput ? 'bg-red-500 border-red-400 text-gray-950' : 'bg-gray-800 opacity-50' : 'bg-gray-800 border-gray-700 hover:bg-gray-700'}`}>
                                 <span className="mr-3 opacity-40 text-xs">{(idx + 1)}</span> {option}
                             </button>
                         ))}
@@ -348,10 +381,17 @@ export const StudySession: React.FC<StudySessionProps> = ({ words, onComplete, o
 
       <div className={`mt-6 max-w-2xl mx-auto w-full transition-all duration-300 ${(studyMode === 'flashcard' && isFlipped) || (studyMode !== 'flashcard' && isAnswered) ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}>
          <div className="grid grid-cols-4 gap-3">
-            <button onClick={() => handleRate('fail')} className="flex flex-col items-center bg-red-900/20 border border-red-500/30 text-red-400 py-3 rounded-xl relative"><span className="font-bold">Quên</span><span className="text-[10px] bg-gray-950 px-1 rounded absolute -top-2 -right-1 border border-red-500/30">1</span></button>
-            <button onClick={() => handleRate('hard')} className="flex flex-col items-center bg-orange-900/20 border border-orange-500/30 text-orange-400 py-3 rounded-xl relative"><span className="font-bold">Khó</span><span className="text-[10px] bg-gray-950 px-1 rounded absolute -top-2 -right-1 border border-orange-500/30">2</span></button>
-            <button onClick={() => handleRate('good')} className="flex flex-col items-center bg-blue-900/20 border border-blue-500/30 text-blue-400 py-3 rounded-xl relative"><span className="font-bold">Thuộc</span><span className="text-[10px] bg-gray-950 px-1 rounded absolute -top-2 -right-1 border border-blue-500/30">3</span></button>
-            <button onClick={() => handleRate('easy')} className="flex flex-col items-center bg-emerald-900/20 border border-emerald-500/30 text-emerald-400 py-3 rounded-xl relative"><span className="font-bold">Dễ</span><span className="text-[10px] bg-gray-950 px-1 rounded absolute -top-2 -right-1 border border-emerald-500/30">4</span></button>
+            {RATINGS.map((rating, i) => {
+                const style = RATING_STYLES[rating];
+                const days = scheduler.schedule(currentCard.item, rating).interval_days;
+                return (
+                    <button key={rating} onClick={() => handleRate(rating)} className={`flex flex-col items-center ${style.className} py-3 rounded-xl relative`}>
+                        <span className="font-bold">{style.label}</span>
+                        <span className="text-[10px] opacity-60 font-medium">{days} ngày</span>
+                        <span className={`text-[10px] bg-gray-950 px-1 rounded absolute -top-2 -right-1 border ${style.badge}`}>{i + 1}</span>
+                    </button>
+                );
+            })}
          </div>
       </div>
       <style>{`.perspective-1000 { perspective: 1000px; } .transform-style-3d { transform-style: preserve-3d; } .backface-hidden { backface-visibility: hidden; }`}</style>
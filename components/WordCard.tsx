@@ -2,28 +2,34 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { WordData, PronunciationFeedback, SentenceEvaluation } from '../types';
 // Added ArrowRight to imports to fix the "Cannot find name 'ArrowRight'" error
-import { Volume2, Bookmark, Mic, MicOff, RefreshCw, Star, AlertTriangle, Book, Cloud, PenTool, CheckCircle2, Info, XCircle, Send, ArrowRight } from 'lucide-react';
+import { Volume2, Bookmark, Mic, MicOff, RefreshCw, Star, AlertTriangle, Book, Cloud, PenTool, CheckCircle2, Info, XCircle, Send, ArrowRight, StickyNote } from 'lucide-react';
 import { checkPronunciation, evaluateSentence } from '../services/geminiService';
+import { useOnlineStatus } from '../services/pwa';
+import { describeAiError } from '../services/aiErrors';
+import { sentenceAt } from '../services/reading';
 
 interface WordCardProps {
   data: WordData;
   isSaved: boolean;
   onToggleSave: () => void;
-  sheetsUrl?: string;
-  onLookup?: (word: string) => void;
+  onSyncToSheets?: () => Promise<void>;
+  onLookup?: (word: string, context?: string) => void;
 }
 
-const ClickableText: React.FC<{ text: string, className?: string, onLookup?: (word: string) => void }> = ({ text, className, onLookup }) => {
+const ClickableText: React.FC<{ text: string, className?: string, onLookup?: (word: string, context?: string) => void }> = ({ text, className, onLookup }) => {
   if (!onLookup) return <span className={className}>{text}</span>;
   const parts = text.split(/(\s+)/);
+  let offset = 0;
   return (
     <span className={className}>
       {parts.map((part, i) => {
+        const start = offset;
+        offset += part.length;
         if (/\s+/.test(part)) return part;
         const cleanWord = part.replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, "");
         if (!cleanWord || cleanWord.length < 2) return part;
         return (
-          <span key={i} onClick={(e) => { e.stopPropagation(); onLookup(cleanWord); }} className="hover:underline hover:text-emerald-400 cursor-pointer decoration-emerald-500/50 underline-offset-2 transition-colors">
+          <span key={i} onClick={(e) => { e.stopPropagation(); onLookup(cleanWord, sentenceAt(text, start)); }} className="hover:underline hover:text-emerald-400 cursor-pointer decoration-emerald-500/50 underline-offset-2 transition-colors">
             {part}
           </span>
         );
@@ -32,7 +38,7 @@ const ClickableText: React.FC<{ text: string, className?: string, onLookup?: (wo
   );
 };
 
-export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave, sheetsUrl, onLookup }) => {
+export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave, onSyncToSheets, onLookup }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
@@ -40,6 +46,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
   const [practiceInput, setPracticeInput] = useState('');
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [evaluation, setEvaluation] = useState<SentenceEvaluation | null>(null);
+  const isOnline = useOnlineStatus();
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -64,24 +71,31 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
     return () => window.removeEventListener('keydown', handleLocalKeyDown);
   }, []);
 
+  // Cụm collocation không phải câu nên không làm ngữ cảnh; chỉ dùng câu ví dụ khi từ có mặt trong đó
+  const lookupCollocationWord = (word: string) => {
+    const inExample = data.example_en.toLowerCase().split(/[^a-z'’-]+/).includes(word.toLowerCase());
+    onLookup?.(word, inExample ? data.example_en : undefined);
+  };
+
   const syncToSheets = async () => {
-    if (!sheetsUrl || isSyncing) return;
+    if (!onSyncToSheets || isSyncing) return;
     setIsSyncing(true);
     try {
-      await fetch(sheetsUrl, { method: 'POST', mode: 'no-cors', body: JSON.stringify({ type: 'Word', ...data }) });
+      await onSyncToSheets();
       alert(`Đã đồng bộ lên Google Sheets thành công!`);
-    } catch (e) { alert("Lỗi kết nối Google Sheets."); } finally { setIsSyncing(false); }
+    } catch (e) { alert(`Lỗi kết nối Google Sheets: ${e instanceof Error ? e.message : e}`); } finally { setIsSyncing(false); }
   };
 
   const handleEvaluate = async () => {
-    if (!practiceInput.trim() || isEvaluating) return;
+    if (!practiceInput.trim() || isEvaluating || !isOnline) return;
     setIsEvaluating(true);
     setEvaluation(null);
     try {
       const result = await evaluateSentence(data.word, practiceInput);
       setEvaluation(result);
     } catch (err) {
-      alert("Lỗi khi đánh giá câu. Vui lòng thử lại.");
+      const info = describeAiError(err);
+      alert(`Lỗi khi đánh giá câu: ${info.message} ${info.hint}`);
     } finally {
       setIsEvaluating(false);
     }
@@ -149,8 +163,8 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
                 <PenTool size={20} />
                 <span className="absolute -bottom-1 -right-1 bg-gray-950 border border-gray-700 text-[6px] font-black text-gray-500 px-1 rounded opacity-0 group-hover:opacity-100">Alt+P</span>
             </button>
-            {sheetsUrl && (
-              <button onClick={syncToSheets} className="p-2 rounded-xl bg-blue-500/10 text-blue-400 border border-blue-500/10 active:scale-95 transition-all hover:bg-blue-500/20">
+            {onSyncToSheets && (
+              <button onClick={syncToSheets} disabled={isSyncing} className="p-2 rounded-xl bg-blue-500/10 text-blue-400 border border-blue-500/10 active:scale-95 transition-all hover:bg-blue-500/20">
                 {isSyncing ? <RefreshCw size={20} className="animate-spin" /> : <Cloud size={20} />}
               </button>
             )}
@@ -160,7 +174,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
             <button onClick={playAudio} className="p-2 bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded-xl active:scale-95 transition-all hover:bg-emerald-500/20">
               <Volume2 size={20} />
             </button>
-            <button onClick={isRecording ? stopRecording : startRecording} className={`p-2 rounded-xl border active:scale-95 transition-all ${isRecording ? 'bg-red-500 text-white animate-pulse border-red-400' : 'bg-blue-500/10 border-blue-500/20 text-blue-400 hover:bg-blue-500/20'}`}>
+            <button onClick={isRecording ? stopRecording : startRecording} disabled={!isOnline && !isRecording} title={isOnline ? undefined : 'Cần kết nối mạng để chấm phát âm'} className={`p-2 rounded-xl border active:scale-95 transition-all disabled:opacity-40 ${isRecording ? 'bg-red-500 text-white animate-pulse border-red-400' : 'bg-blue-500/10 border-blue-500/20 text-blue-400 hover:bg-blue-500/20'}`}>
               {isChecking ? <RefreshCw size={20} className="animate-spin" /> : isRecording ? <MicOff size={20} /> : <Mic size={20} />}
             </button>
         </div>
@@ -191,12 +205,12 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
                 />
                 <button 
                   onClick={handleEvaluate}
-                  disabled={!practiceInput.trim() || isEvaluating}
+                  disabled={!practiceInput.trim() || isEvaluating || !isOnline}
                   className="absolute right-3 bottom-3 flex items-center gap-2 px-5 py-2 bg-purple-600 hover:bg-purple-500 disabled:bg-gray-800 disabled:text-gray-600 text-white rounded-xl text-xs font-black uppercase transition-all shadow-xl active:scale-95 group"
                 >
                   {isEvaluating ? <RefreshCw size={14} className="animate-spin" /> : (
                     <>
-                      <span>Chấm điểm</span>
+                      <span>{isOnline ? 'Chấm điểm' : 'Cần mạng'}</span>
                       <Send size={14} className="group-hover:translate-x-0.5 transition-transform" />
                     </>
                   )}
@@ -262,7 +276,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
           <div className="bg-gray-900/80 p-4 rounded-2xl border-l-4 border-emerald-500/60 shadow-lg group/ex transition-all hover:bg-gray-900">
             <span className="text-[8px] font-black text-gray-500 uppercase tracking-[0.25em] mb-1.5 block">Ví dụ (Trình độ B1)</span>
             <ClickableText text={data.example_en} onLookup={onLookup} className="text-sm sm:text-base text-white font-bold block leading-relaxed mb-1.5 group-hover/ex:text-emerald-300 transition-colors" />
-            <p className="text-gray-400 text-xs sm:text-sm font-medium">→ {data.example_vi}</p>
+            {data.example_vi && <p className="text-gray-400 text-xs sm:text-sm font-medium">→ {data.example_vi}</p>}
           </div>
           <div className="bg-gray-900/80 p-4 rounded-2xl border-l-4 border-blue-500/60 shadow-lg group/ex transition-all hover:bg-gray-900">
             <span className="text-[8px] font-black text-gray-500 uppercase tracking-[0.25em] mb-1.5 block">Ví dụ (Trình độ B2+)</span>
@@ -283,6 +297,13 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
           </div>
         </div>
 
+        {data.notes && (
+          <div className="bg-yellow-950/10 p-3 rounded-xl border border-yellow-500/20">
+            <span className="text-[8px] text-yellow-500 font-black uppercase mb-1.5 tracking-widest flex items-center gap-1.5"><StickyNote size={10} /> Ghi chú của tôi</span>
+            <p className="text-xs text-gray-300 leading-relaxed whitespace-pre-line">{data.notes}</p>
+          </div>
+        )}
+
         {/* Related Lists */}
         <div className="pt-2 space-y-4">
           <div className="flex flex-col gap-2">
@@ -323,7 +344,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, isSaved, onToggleSave,
               <div className="flex flex-wrap gap-2">
                 {data.collocations.slice(0, 3).map((s, idx) => (
                   <span key={idx} className="text-[10px] text-purple-300 font-bold bg-purple-950/20 px-2.5 py-1 rounded-lg border border-purple-500/20 whitespace-nowrap overflow-hidden text-ellipsis max-w-full shadow-inner">
-                    {s.split(' ').map((word, wIdx) => <span key={wIdx} onClick={() => onLookup?.(word.replace(/[.,]/g, "").trim())} className="hover:underline cursor-pointer">{word} </span>)}
+                    {s.split(' ').map((word, wIdx) => <span key={wIdx} onClick={() => lookupCollocationWord(word.replace(/[.,]/g, "").trim())} className="hover:underline cursor-pointer">{word} </span>)}
                   </span>
                 ))}
               </div>
@@ -0,0 +1,53 @@
+// Máy chủ giả lập Apps Script của Google Sheets để thử đồng bộ khi phát triển.
+// Chạy: node scripts/sheets-mock-server.mjs [port]  rồi dán http://localhost:8787 vào ô URL.
+// Dữ liệu chỉ nằm trong bộ nhớ; PATCH /rows/<id> với JSON để giả lập người dùng sửa trên sheet.
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const port = Number(process.argv[2]) || 8787;
+const rows = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  try {
+    if (req.method === 'GET' && url.searchParams.get('action') === 'pull') {
+      const since = Number(url.searchParams.get('since')) || 0;
+      const items = [...rows.values()].filter(row => Number(row.edited_at) > since).map(({ edited_at, ...row }) => row);
+      return send(res, 200, { ok: true, items, server_time: Date.now() });
+    }
+
+    if (req.method === 'POST') {
+      const body = JSON.parse(await readBody(req));
+      if (body.action !== 'push') return send(res, 400, { ok: false, error: 'Unknown action' });
+      // Dòng do app gửi lên không tính là "sửa trên sheet" nên không trả lại ở lần pull sau
+      (body.items || []).forEach(item => rows.set(item.id, { ...item, edited_at: 0 }));
+      (body.deleted || []).forEach(id => rows.delete(id));
+      return send(res, 200, { ok: true, server_time: Date.now() });
+    }
+
+    if (req.method === 'PATCH' && url.pathname.startsWith('/rows/')) {
+      const id = decodeURIComponent(url.pathname.slice('/rows/'.length)) || randomUUID();
+      const now = Date.now();
+      rows.set(id, { ...rows.get(id), ...JSON.parse(await readBody(req)), id, updated_at: String(now), edited_at: now });
+      return send(res, 200, { ok: true, row: rows.get(id) });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/rows') return send(res, 200, { ok: true, items: [...rows.values()] });
+
+    send(res, 404, { ok: false, error: 'Not found' });
+  } catch (err) {
+    send(res, 500, { ok: false, error: String(err) });
+  }
+}).listen(port, () => console.log(`Sheets mock listening on http://localhost:${port}`));
@@ -0,0 +1,249 @@
+// Máy chủ proxy giữ API key của Gemini phía server để key không bị đóng gói vào JS của trang web.
+// Chạy: GEMINI_API_KEY=... npm run proxy  rồi chọn "Máy chủ proxy" trong phần cài đặt AI.
+// Biến môi trường: PORT (8788), ALLOWED_ORIGIN (các origin cách nhau bằng dấu phẩy; mặc định chỉ localhost),
+// RATE_LIMIT (lượt/phút cho mỗi client, 30), TRUST_PROXY=1 khi chạy sau reverse proxy,
+// AI_PROXY_UPSTREAM=fixture để chạy thử không cần key.
+import http from 'node:http';
+import { AiProvider, AiCallOptions, AiRepair } from '../services/aiProvider';
+import { wordSchema, sentenceSchema, evaluationSchema, pronunciationSchema, fieldSchema } from '../services/aiPrompts';
+import { parseAndValidate } from '../services/aiValidation';
+import { AiErrorKind, classifyAiError } from '../services/aiErrors';
+import { geminiProvider } from '../services/geminiProvider';
+import { fixtureProvider } from '../services/fixtureProvider';
+
+process.env.API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY;
+
+const port = Number(process.env.PORT) || 8788;
+const allowedOrigins = (process.env.ALLOWED_ORIGIN || '').split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+const trustProxy = ['1', 'true'].includes((process.env.TRUST_PROXY || '').toLowerCase());
+const rateLimit = Number(process.env.RATE_LIMIT) || 30;
+const upstream: AiProvider = process.env.AI_PROXY_UPSTREAM === 'fixture' ? fixtureProvider : geminiProvider;
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+// Không cấu hình ALLOWED_ORIGIN thì chỉ trang chạy trên máy này (npm run dev / preview) được gọi
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+// Body JSON đã xác định là object; từng trường vẫn phải đọc qua text()/kiểm tra kiểu
+type RequestBody = Record<string, unknown>;
+
+interface Route {
+  // Schema để kiểm tra kết quả trước khi cache
+  schema?: Record<string, unknown>;
+  // Khóa cache; không có thì không cache (phát âm phụ thuộc vào bản ghi âm)
+  cacheKey?: (body: RequestBody) => string;
+  // Trả về thông báo lỗi nếu body hợp lệ về hình thức nhưng không dùng được
+  reject?: (body: RequestBody) => string | undefined;
+  call: (body: RequestBody, options: AiCallOptions) => Promise<string>;
+}
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const isRequestBody = (value: unknown): value is RequestBody => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Yêu cầu sửa chỉ dùng khi đúng dạng {previous, issues}; dạng khác thì coi như không có
+const toRepair = (value: unknown): AiRepair | undefined => {
+  if (!isRequestBody(value) || typeof value.previous !== 'string' || !Array.isArray(value.issues)) return undefined;
+  return { previous: value.previous, issues: value.issues.filter((issue): issue is string => typeof issue === 'string') };
+};
+
+const ROUTES: Record<string, Route> = {
+  '/api/lookup': {
+    schema: wordSchema,
+    cacheKey: body => `word:${text(body.input).toLowerCase()}`,
+    call: (body, options) => upstream.lookupWord(text(body.input).toLowerCase(), options),
+  },
+  '/api/context': {
+    schema: wordSchema,
+    cacheKey: body => `context:${text(body.input).toLowerCase()}\n${text(body.sentence)}`,
+    call: (body, options) => upstream.lookupWordInContext(text(body.input).toLowerCase(), text(body.sentence), options),
+  },
+  '/api/sentence': {
+    schema: sentenceSchema,
+    cacheKey: body => `sentence:${text(body.input)}`,
+    call: (body, options) => upstream.lookupSentence(text(body.input), options),
+  },
+  '/api/evaluate': {
+    schema: evaluationSchema,
+    cacheKey: body => `evaluate:${text(body.targetWord)}\n${text(body.sentence)}`,
+    call: (body, options) => upstream.evaluateSentence(text(body.targetWord), text(body.sentence), options),
+  },
+  '/api/pronunciation': {
+    schema: pronunciationSchema,
+    call: (body, options) => upstream.checkPronunciation(text(body.target), text(body.audio), text(body.mimeType) || 'audio/webm', options),
+  },
+  // Sinh lại một trường luôn phải ra kết quả mới nên không cache
+  '/api/field': {
+    reject: body => fieldSchema(body.kind === 'sentence' ? 'sentence' : 'word', text(body.field)) ? undefined : `Unknown field ${text(body.field)}`,
+    call: (body, options) => upstream.regenerateField({
+      kind: body.kind === 'sentence' ? 'sentence' : 'word', text: text(body.text), field: text(body.field), current: body.current,
+    }, options),
+  },
+};
+
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  '/api/lookup': ['input'],
+  '/api/context': ['input', 'sentence'],
+  '/api/sentence': ['input'],
+  '/api/evaluate': ['targetWord', 'sentence'],
+  '/api/pronunciation': ['target', 'audio'],
+  '/api/field': ['text', 'field'],
+};
+
+const STATUS_FOR_KIND: Record<AiErrorKind, number> = {
+  auth: 401,
+  quota: 429,
+  network: 502,
+  blocked: 422,
+  invalid_output: 502,
+  unknown: 500,
+};
+
+// Map giữ thứ tự chèn nên phần tử đầu tiên là phần tử ít dùng nhất
+const cache = new Map<string, { text: string; expires: number }>();
+
+const readCache = (key: string) => {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  cache.delete(key);
+  if (entry.expires < Date.now()) return undefined;
+  cache.set(key, entry);
+  return entry.text;
+};
+
+const writeCache = (key: string, value: string) => {
+  cache.delete(key);
+  cache.set(key, { text: value, expires: Date.now() + CACHE_TTL_MS });
+  while (cache.size > CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+};
+
+// Cửa sổ cố định theo từng client; dọn các cửa sổ đã hết hạn mỗi phút
+const windows = new Map<string, { start: number; count: number }>();
+setInterval(() => {
+  const now = Date.now();
+  windows.forEach((window, client) => { if (now - window.start >= RATE_WINDOW_MS) windows.delete(client); });
+}, RATE_WINDOW_MS).unref();
+
+const takeSlot = (client: string) => {
+  const now = Date.now();
+  const window = windows.get(client);
+  if (!window || now - window.start >= RATE_WINDOW_MS) {
+    windows.set(client, { start: now, count: 1 });
+    return 0;
+  }
+  if (window.count >= rateLimit) return Math.ceil((window.start + RATE_WINDOW_MS - now) / 1000);
+  window.count++;
+  return 0;
+};
+
+// X-Forwarded-For do client tự gửi được nên chỉ tin khi chạy sau reverse proxy (TRUST_PROXY),
+// và khi đó lấy địa chỉ cuối cùng: địa chỉ do chính reverse proxy nối thêm, không phải do client khai
+const clientId = (req: http.IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = trustProxy ? (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '').split(',').map(hop => hop.trim()).filter(Boolean) : [];
+  return hops[hops.length - 1] || req.socket.remoteAddress || 'unknown';
+};
+
+const isAllowedOrigin = (origin: string) =>
+  allowedOrigins.length ? allowedOrigins.includes('*') || allowedOrigins.includes(origin) : LOCAL_ORIGIN.test(origin);
+
+const send = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: http.ServerResponse, status: number, kind: AiErrorKind, message: string, headers?: Record<string, string>) =>
+  send(res, status, { error: { kind, message } }, headers);
+
+class BodyTooLargeError extends Error {}
+
+// Vượt giới hạn thì ngừng đọc ngay; phần còn lại không được giữ trong bộ nhớ
+const readBody = (req: http.IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      req.off('data', onData);
+      req.pause();
+      chunks.length = 0;
+      return reject(new BodyTooLargeError('Request body too large'));
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  // Yêu cầu không có Origin (curl, máy chủ khác) vẫn qua được nhưng bị giới hạn lượt như mọi client
+  const origin = req.headers.origin;
+  res.setHeader('Vary', 'Origin');
+  if (origin && !isAllowedOrigin(origin)) return sendError(res, 403, 'auth', 'Origin not allowed');
+  if (origin) res.setHeader('Access-Control-Allow-Origin', origin);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Methods': 'POST, OPTIONS', 'Access-Control-Allow-Headers': 'Content-Type', 'Access-Control-Max-Age': '86400' });
+    return res.end();
+  }
+
+  const path = new URL(req.url || '/', `http://localhost:${port}`).pathname;
+  if (req.method === 'GET' && path === '/health') return send(res, 200, { ok: true, provider: upstream.id, cached: cache.size });
+
+  const route = ROUTES[path];
+  if (!route || req.method !== 'POST') return sendError(res, 404, 'unknown', 'Not found');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readBody(req));
+  } catch (e) {
+    // Phần body chưa đọc vẫn còn trên socket nên đóng kết nối sau khi trả lời
+    if (e instanceof BodyTooLargeError) return sendError(res, 413, 'unknown', e.message, { Connection: 'close' });
+    return sendError(res, 400, 'unknown', 'Invalid JSON body');
+  }
+  if (!isRequestBody(parsed)) return sendError(res, 400, 'unknown', 'Expected a JSON object');
+  const body = parsed;
+  const missing = REQUIRED_FIELDS[path].filter(field => !text(body[field]));
+  if (missing.length) return sendError(res, 400, 'unknown', `Missing ${missing.join(', ')}`);
+  const repair = toRepair(body.repair);
+  const rejection = route.reject?.(body);
+  if (rejection) return sendError(res, 400, 'unknown', rejection);
+
+  // Yêu cầu sửa kết quả lỗi thì luôn hỏi lại AI
+  const key = !repair && route.cacheKey?.(body);
+  const cached = key ? readCache(key) : undefined;
+  if (cached !== undefined) return send(res, 200, { text: cached, cached: true });
+
+  const retryAfter = takeSlot(clientId(req));
+  if (retryAfter) return sendError(res, 429, 'quota', 'Too many requests, slow down', { 'Retry-After': String(retryAfter) });
+
+  // Client đóng kết nối (người dùng gõ tiếp) thì hủy luôn yêu cầu tới Gemini
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+  try {
+    const result = await route.call(body, { repair, signal: controller.signal });
+    // Chỉ cache kết quả đúng schema; kết quả sai vẫn trả về để client yêu cầu sửa
+    if (key && route.schema && !parseAndValidate(result, route.schema).errors.length) writeCache(key, result);
+    send(res, 200, { text: result });
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    const error = classifyAiError(err);
+    console.error(`${path} failed:`, error.message);
+    sendError(res, STATUS_FOR_KIND[error.kind], error.kind, error.message);
+  }
+};
+
+http.createServer((req, res) => {
+  handle(req, res).catch(err => {
+    console.error(err);
+    if (!res.headersSent) sendError(res, 500, 'unknown', 'Internal error');
+  });
+}).listen(port, () => {
+  if (!process.env.API_KEY && upstream === geminiProvider) console.warn('GEMINI_API_KEY is not set; every request will fail with an auth error');
+  if (allowedOrigins.includes('*')) console.warn('ALLOWED_ORIGIN=* lets any website use this proxy and spend its API key');
+  else if (!allowedOrigins.length) console.warn('ALLOWED_ORIGIN is not set; only pages served from localhost can use this proxy');
+  console.log(`AI proxy (${upstream.label}) listening on http://localhost:${port}`);
+});
@@ -0,0 +1,80 @@
+// Mẫu service worker: vite.config.ts điền danh sách tệp cần precache và version cache rồi xuất ra sw.js khi build.
+// Giao diện và thẻ học chạy hoàn toàn offline; yêu cầu tới AI hay Google Sheets luôn đi thẳng ra mạng.
+const CACHE_PREFIX = 'flashvocab-';
+const CACHE_NAME = `${CACHE_PREFIX}__CACHE_VERSION__`;
+const PRECACHE = __PRECACHE_MANIFEST__;
+
+// Tailwind và font tải từ CDN; thiếu chúng thì giao diện offline vỡ bố cục
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const CDN_PRECACHE = ['https://cdn.tailwindcss.com'];
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(PRECACHE.map(scopeUrl));
+    // CDN không bật CORS cho mọi tài nguyên nên lưu dạng opaque; lỗi thì để lần tải sau lưu bù
+    await Promise.all(CDN_PRECACHE.map(url =>
+      fetch(url, { mode: 'no-cors' }).then(response => cache.put(url, response)).catch(() => {})
+    ));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// Trang gửi khi người dùng đồng ý tải lại để dùng phiên bản mới
+self.addEventListener('message', (event) => {
+  if (event.data === 'skipWaiting') self.skipWaiting();
+});
+
+const networkFirstPage = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(scopeUrl('./'), response.clone());
+    return response;
+  } catch (err) {
+    return (await cache.match(scopeUrl('./'))) || Response.error();
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(CACHE_NAME)).put(request, response.clone());
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const update = fetch(request).then(response => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (!cached) return update;
+  update.catch(() => {});
+  return cached;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.href.startsWith(self.registration.scope)) {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && url.href.startsWith(self.registration.scope)) {
+    event.respondWith(cacheFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
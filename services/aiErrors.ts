@@ -0,0 +1,66 @@
+export type AiErrorKind = 'auth' | 'quota' | 'network' | 'blocked' | 'invalid_output' | 'unknown';
+
+export class AiError extends Error {
+  constructor(public kind: AiErrorKind, message: string, public status?: number) {
+    super(message);
+    this.name = 'AiError';
+  }
+
+  // Lỗi tạm thời: đợi một chút rồi gửi lại có thể thành công
+  get transient() {
+    return this.kind === 'network' || this.kind === 'quota';
+  }
+}
+
+// Lỗi khi AI trả về dữ liệu không dùng được, kể cả sau lần yêu cầu sửa
+export class AiResponseError extends AiError {
+  constructor(public task: string, public issues: string[]) {
+    super('invalid_output', `AI trả về dữ liệu không hợp lệ (${task}): ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'AiResponseError';
+  }
+}
+
+export const errorForStatus = (status: number, message: string) => {
+  if (status === 401 || status === 403) return new AiError('auth', message, status);
+  if (status === 429) return new AiError('quota', message, status);
+  if (status >= 500) return new AiError('network', message, status);
+  // Gemini trả 400 khi API key sai
+  if (status === 400 && /api[ _-]?key/i.test(message)) return new AiError('auth', message, status);
+  return new AiError('unknown', message, status);
+};
+
+// Quy mọi lỗi từ SDK, fetch hay provider về AiError
+export const classifyAiError = (err: unknown): AiError => {
+  if (err instanceof AiError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof err === 'object' && err !== null && 'status' in err && typeof err.status === 'number' ? err.status : undefined;
+  if (status) return errorForStatus(status, message);
+  if (/api[ _-]?key/i.test(message)) return new AiError('auth', message);
+  if (/quota|rate limit|resource[ _]exhausted/i.test(message)) return new AiError('quota', message);
+  if (err instanceof TypeError || /network|failed to fetch|fetch failed|load failed/i.test(message) ||
+      (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new AiError('network', message);
+  }
+  return new AiError('unknown', message);
+};
+
+export interface AiErrorInfo {
+  kind: AiErrorKind;
+  message: string;
+  hint: string;
+  retryable: boolean;
+}
+
+const DESCRIPTIONS: Record<AiErrorKind, Omit<AiErrorInfo, 'kind'>> = {
+  auth: { message: 'API key chưa được cấu hình hoặc không hợp lệ.', hint: 'Kiểm tra lại API key hoặc chọn nguồn AI khác trong phần cài đặt.', retryable: false },
+  quota: { message: 'Đã vượt giới hạn số lượt gọi AI.', hint: 'Đợi một lúc rồi thử lại.', retryable: true },
+  network: { message: 'Không kết nối được tới dịch vụ AI.', hint: 'Kiểm tra kết nối mạng rồi thử lại.', retryable: true },
+  blocked: { message: 'Nội dung này bị bộ lọc an toàn chặn.', hint: 'Hãy diễn đạt lại từ hoặc câu cần tra.', retryable: false },
+  invalid_output: { message: 'AI trả về kết quả không đọc được.', hint: 'Thử lại, hoặc diễn đạt lại nội dung cần tra.', retryable: true },
+  unknown: { message: 'Lỗi tra cứu không xác định.', hint: 'Thử lại sau ít phút.', retryable: true },
+};
+
+export const describeAiError = (err: unknown): AiErrorInfo => {
+  const { kind } = classifyAiError(err);
+  return { kind, ...DESCRIPTIONS[kind] };
+};
@@ -0,0 +1,147 @@
+import { Type } from "@google/genai";
+import { AiJsonRequest, FieldRegeneration } from "./aiProvider";
+
+// Schema viết theo định dạng của Gemini; provider khác tự chuyển sang JSON Schema chuẩn
+
+export const wordSchema = {
+  type: Type.OBJECT,
+  properties: {
+    word: { type: Type.STRING, description: "The English word (MUST BE EXACTLY SAME as input if input is English)" },
+    meaning_vi: { type: Type.STRING, description: "Main Vietnamese meaning" },
+    definition_en: { type: Type.STRING, description: "Short, simple English definition (max 15 words)" },
+    ipa: { type: Type.STRING },
+    syllables: { type: Type.STRING },
+    spelling_tip: { type: Type.STRING },
+    part_of_speech: { type: Type.STRING },
+    example_en: { type: Type.STRING },
+    example_vi: { type: Type.STRING },
+    example_b2_en: { type: Type.STRING },
+    example_b2_vi: { type: Type.STRING },
+    root_word: { type: Type.STRING, description: "The origin word or root of the word" },
+    mnemonic: { type: Type.STRING, description: "Memory trick to remember this word" },
+    synonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
+    antonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
+    word_family: { type: Type.ARRAY, items: { type: Type.STRING } },
+    collocations: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["word", "meaning_vi", "definition_en", "ipa", "example_en", "example_vi", "root_word", "mnemonic"],
+};
+
+export const sentenceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sentence: { type: Type.STRING, description: "The English version of the sentence" },
+    meaning_vi: { type: Type.STRING, description: "Vietnamese translation/original" },
+    grammar_breakdown: { type: Type.STRING },
+    usage_context: { type: Type.STRING },
+    naturalness_score: { type: Type.NUMBER },
+    similar_sentences: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          en: { type: Type.STRING },
+          vi: { type: Type.STRING }
+        }
+      }
+    }
+  },
+  required: ["sentence", "meaning_vi", "grammar_breakdown", "usage_context", "naturalness_score", "similar_sentences"]
+};
+
+export const evaluationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER, description: "Score from 0 to 100" },
+    corrected_sentence: { type: Type.STRING, description: "The improved/correct version of the sentence" },
+    explanation_vi: { type: Type.STRING, description: "Explanation of errors and tips in Vietnamese" },
+    is_natural: { type: Type.BOOLEAN, description: "Whether the sentence sounds like a native speaker" },
+  },
+  required: ["score", "corrected_sentence", "explanation_vi", "is_natural"],
+};
+
+export const pronunciationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER },
+    is_correct: { type: Type.BOOLEAN },
+    feedback_vi: { type: Type.STRING },
+    detected_speech: { type: Type.STRING },
+  },
+  required: ["score", "is_correct", "feedback_vi", "detected_speech"],
+};
+
+export const wordRequest = (normalized: string): AiJsonRequest => ({
+  name: 'word',
+  prompt: `Analyze this English/Vietnamese word: "${normalized}"`,
+  system: `You are an ultra-fast bilingual dictionary.
+      STRICT RULES:
+      1. If input is English (e.g. 'raw', 'exit'), DO NOT change it. The "word" field MUST be the same as input.
+      2. If input is Vietnamese, translate to the most precise English word first.
+      3. Split 'root_word' and 'mnemonic' into separate fields.
+      4. Speed is top priority. JSON output only.`,
+  schema: wordSchema,
+});
+
+// Nghĩa của từ đúng như trong câu đang đọc ("bank" trong "river bank" là bờ sông, không phải ngân hàng)
+export const contextRequest = (word: string, sentence: string): AiJsonRequest => ({
+  name: 'context',
+  prompt: `Analyze the English word "${word}" as it is used in this sentence: "${sentence}"`,
+  system: `You are an ultra-fast bilingual dictionary.
+      STRICT RULES:
+      1. Describe ONLY the sense the word has in the given sentence; "meaning_vi", "definition_en" and "part_of_speech" must match that sense.
+      2. "word" is the dictionary form of the word as used in the sentence (e.g. 'banks' -> 'bank').
+      3. "example_en" MUST be the given sentence unchanged; "example_vi" is its natural Vietnamese translation.
+      4. Synonyms, antonyms and collocations must fit the same sense. JSON output only.`,
+  schema: wordSchema,
+});
+
+export const sentenceRequest = (normalized: string): AiJsonRequest => ({
+  name: 'sentence',
+  prompt: `Analyze sentence: "${normalized}"`,
+  system: `Analyze English/Vietnamese sentence.
+      If Vietnamese, translate to natural English.
+      The "sentence" field MUST be the English version.
+      JSON only.`,
+  schema: sentenceSchema,
+});
+
+export const evaluationRequest = (targetWord: string, userSentence: string): AiJsonRequest => ({
+  name: 'evaluation',
+  prompt: `Evaluate this English sentence using the word "${targetWord}": "${userSentence}"`,
+  system: `You are an English teacher.
+      Grade the sentence (0-100), provide a corrected version, and explain errors in Vietnamese.
+      Be encouraging but precise. JSON only.`,
+  schema: evaluationSchema,
+});
+
+export const pronunciationRequest = (target: string, base64Audio: string, mimeType: string): AiJsonRequest => ({
+  name: 'pronunciation',
+  prompt: `Check pronunciation for: "${target}"`,
+  system: "Pronunciation coach. Be brief. JSON output.",
+  schema: pronunciationSchema,
+  audio: { data: base64Audio, mimeType },
+});
+
+// Schema cho một trường: giá trị bọc trong {value} để dùng chung bộ kiểm tra; trường không có trong schema thì trả undefined
+export const fieldSchema = (kind: FieldRegeneration['kind'], field: string): Record<string, any> | undefined => {
+  const properties: Record<string, any> = (kind === 'word' ? wordSchema : sentenceSchema).properties;
+  if (!Object.prototype.hasOwnProperty.call(properties, field)) return undefined;
+  return { type: Type.OBJECT, properties: { value: properties[field] }, required: ['value'] };
+};
+
+export const fieldRequest = ({ kind, text, field, current }: FieldRegeneration): AiJsonRequest => {
+  const schema = fieldSchema(kind, field);
+  if (!schema) throw new Error(`Field "${field}" cannot be regenerated`);
+  return {
+    name: 'field',
+    prompt: `${kind === 'word' ? 'Word' : 'Sentence'}: "${text}"
+Field: "${field}"
+Current value: ${JSON.stringify(current)}`,
+    system: `You are a bilingual English-Vietnamese dictionary editor.
+      Write a new value for the given field of this dictionary entry. It must differ from the current value and be more helpful.
+      Keep the language of the current value. Return {"value": ...}. JSON only.`,
+    schema,
+    temperature: 0.9,
+  };
+};
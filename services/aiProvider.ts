@@ -0,0 +1,89 @@
+import { wordRequest, contextRequest, sentenceRequest, evaluationRequest, pronunciationRequest, fieldRequest } from "./aiPrompts";
+import { RateLimit } from "./requestControl";
+
+export type AiProviderId = 'gemini' | 'proxy' | 'openai' | 'fixture';
+
+export interface AiJsonRequest {
+  name: 'word' | 'context' | 'sentence' | 'evaluation' | 'pronunciation' | 'field';
+  system: string;
+  prompt: string;
+  schema: Record<string, any>;
+  audio?: { data: string; mimeType: string };
+  // Mặc định 0 để cùng đầu vào cho cùng kết quả; sinh lại một trường thì cần khác đi
+  temperature?: number;
+}
+
+// Sinh lại một trường của thẻ đã lưu (ví dụ mẹo nhớ mới)
+export interface FieldRegeneration {
+  kind: 'word' | 'sentence';
+  text: string;
+  field: string;
+  current: unknown;
+}
+
+// Gửi kèm khi yêu cầu AI sửa lại câu trả lời không hợp lệ lần trước
+export interface AiRepair {
+  previous: string;
+  issues: string[];
+}
+
+export interface AiCallOptions {
+  repair?: AiRepair;
+  signal?: AbortSignal;
+}
+
+// Mọi provider đều trả về chuỗi JSON thô; geminiService lo parse, kiểm tra và cache
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  // Giới hạn phía client để gõ nhanh không đốt hết quota; không đặt thì không giới hạn
+  rateLimit?: RateLimit;
+  lookupWord: (normalized: string, options?: AiCallOptions) => Promise<string>;
+  // Tra từ kèm câu chứa nó để lấy đúng nghĩa trong câu
+  lookupWordInContext: (word: string, sentence: string, options?: AiCallOptions) => Promise<string>;
+  lookupSentence: (normalized: string, options?: AiCallOptions) => Promise<string>;
+  evaluateSentence: (targetWord: string, userSentence: string, options?: AiCallOptions) => Promise<string>;
+  checkPronunciation: (target: string, base64Audio: string, mimeType: string, options?: AiCallOptions) => Promise<string>;
+  regenerateField: (request: FieldRegeneration, options?: AiCallOptions) => Promise<string>;
+}
+
+const withRepair = (request: AiJsonRequest, repair?: AiRepair): AiJsonRequest => repair ? {
+  ...request,
+  prompt: `${request.prompt}
+
+Your previous answer was invalid: ${repair.issues.join('; ')}.
+Previous answer:
+${repair.previous.slice(0, 4000)}
+Return only corrected JSON that matches the schema, with every required field filled in.`,
+} : request;
+
+// Provider dùng mô hình ngôn ngữ chỉ cần biết cách gửi một yêu cầu JSON; prompt dùng chung
+export const createJsonProvider = (
+  id: AiProviderId,
+  label: string,
+  generate: (request: AiJsonRequest, signal?: AbortSignal) => Promise<string>,
+  rateLimit?: RateLimit
+): AiProvider => ({
+  id,
+  label,
+  rateLimit,
+  lookupWord: (normalized, options) => generate(withRepair(wordRequest(normalized), options?.repair), options?.signal),
+  lookupWordInContext: (word, sentence, options) => generate(withRepair(contextRequest(word, sentence), options?.repair), options?.signal),
+  lookupSentence: (normalized, options) => generate(withRepair(sentenceRequest(normalized), options?.repair), options?.signal),
+  evaluateSentence: (targetWord, userSentence, options) =>
+    generate(withRepair(evaluationRequest(targetWord, userSentence), options?.repair), options?.signal),
+  checkPronunciation: (target, base64Audio, mimeType, options) =>
+    generate(withRepair(pronunciationRequest(target, base64Audio, mimeType), options?.repair), options?.signal),
+  regenerateField: (request, options) => generate(withRepair(fieldRequest(request), options?.repair), options?.signal),
+});
+
+// Gemini dùng enum viết hoa ("OBJECT"); JSON Schema chuẩn dùng chữ thường
+export const toJsonSchema = (schema: Record<string, any>): Record<string, any> => {
+  const result: Record<string, any> = { ...schema };
+  if (typeof schema.type === 'string') result.type = schema.type.toLowerCase();
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value as Record<string, any>)]));
+  }
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  return result;
+};
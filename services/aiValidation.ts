@@ -0,0 +1,81 @@
+import { Type } from "@google/genai";
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+}
+
+const defaultFor = (schema: Record<string, any>): unknown => {
+  switch (schema.type) {
+    case Type.STRING: return '';
+    case Type.NUMBER:
+    case Type.INTEGER: return 0;
+    case Type.BOOLEAN: return false;
+    case Type.ARRAY: return [];
+    case Type.OBJECT: return fillObject({}, schema, '', []);
+    default: return null;
+  }
+};
+
+// Ép kiểu những lỗi vặt hay gặp (số dạng chuỗi, "true"/"false"); trả undefined nếu không cứu được
+const coerce = (value: unknown, schema: Record<string, any>, path: string, errors: string[]): unknown => {
+  switch (schema.type) {
+    case Type.STRING:
+      return typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? value : value === 'true' ? true : value === 'false' ? false : undefined;
+    case Type.ARRAY: {
+      const list = Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : undefined;
+      if (!list || !schema.items) return list;
+      return list
+        .map((item, i) => coerce(item, schema.items, `${path}[${i}]`, errors))
+        .filter(item => item !== undefined);
+    }
+    case Type.OBJECT:
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? fillObject(value as Record<string, any>, schema, path, errors) : undefined;
+    default:
+      return value;
+  }
+};
+
+const fillObject = (input: Record<string, any>, schema: Record<string, any>, path: string, errors: string[]) => {
+  const result: Record<string, any> = {};
+  const required: string[] = schema.required || [];
+  Object.entries<Record<string, any>>(schema.properties || {}).forEach(([key, propSchema]) => {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const value = input[key] === null || input[key] === undefined ? undefined : coerce(input[key], propSchema, fieldPath, errors);
+    const isBlank = value === undefined || (typeof value === 'string' && value.trim() === '');
+    if (required.includes(key) && isBlank) {
+      errors.push(input[key] === undefined ? `thiếu trường "${fieldPath}"` : `trường "${fieldPath}" không hợp lệ`);
+    }
+    result[key] = value === undefined ? defaultFor(propSchema) : value;
+  });
+  return result;
+};
+
+// Kiểm tra theo cùng schema gửi cho AI; trường tùy chọn bị thiếu hoặc sai kiểu được thay bằng giá trị rỗng an toàn
+export const validateAgainstSchema = <T>(value: unknown, schema: Record<string, any>): ValidationResult<T> => {
+  const errors: string[] = [];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { value: defaultFor(schema) as T, errors: ['kết quả không phải một đối tượng JSON'] };
+  }
+  return { value: fillObject(value as Record<string, any>, schema, '', errors) as T, errors };
+};
+
+// Model chạy cục bộ hay bọc JSON trong ```json ... ```
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export const parseAndValidate = <T>(text: string, schema: Record<string, any>): ValidationResult<T | null> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(text));
+  } catch (e) {
+    return { value: null, errors: ['kết quả không phải JSON hợp lệ'] };
+  }
+  return validateAgainstSchema<T>(parsed, schema);
+};
@@ -0,0 +1,67 @@
+import { WordData, SentenceData } from "../types";
+import { downloadFile } from "./download";
+
+export interface AnkiExportOptions {
+  deck: string;
+  tags: string[];
+}
+
+// Thứ tự trường của ghi chú; khi nhập vào Anki ánh xạ lần lượt sang các trường của note type
+export const ANKI_FIELDS = ['Front', 'IPA', 'Meaning', 'Definition', 'Examples', 'Mnemonic', 'Collocations'];
+
+// Dấu " cũng phải đổi: trường bắt đầu bằng " bị Anki hiểu là trường trong ngoặc kép và lệch cột
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Tab và xuống dòng sẽ phá vỡ định dạng TSV, nên đổi sang khoảng trắng / <br>
+const field = (value: string | undefined) => escapeHtml(value || '').replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+const lines = (values: (string | undefined)[]) => values.filter(Boolean).map(field).join('<br>');
+
+// Thẻ Anki không được chứa khoảng trắng
+const toTag = (tag: string) => tag.trim().replace(/\s+/g, '_');
+
+const wordRow = (w: WordData) => [
+  field(w.word),
+  field(w.ipa ? `/${w.ipa}/` : ''),
+  field(w.meaning_vi),
+  field(w.definition_en),
+  lines([w.example_en && `${w.example_en} → ${w.example_vi}`, w.example_b2_en && `${w.example_b2_en} → ${w.example_b2_vi}`]),
+  lines([w.root_word, w.mnemonic, w.notes]),
+  lines(w.collocations || []),
+];
+
+const sentenceRow = (s: SentenceData) => [
+  field(s.sentence),
+  '',
+  field(s.meaning_vi),
+  field(s.usage_context),
+  lines((s.similar_sentences || []).map(alt => `${alt.en} → ${alt.vi}`)),
+  lines([s.grammar_breakdown, s.notes]),
+  '',
+];
+
+export const buildAnkiNotes = (words: WordData[], sentences: SentenceData[], options: AnkiExportOptions) => {
+  const deck = options.deck.trim() || 'FlashVocab';
+  const tags = options.tags.map(toTag).filter(Boolean);
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#deck column:${ANKI_FIELDS.length + 1}`,
+    `#tags column:${ANKI_FIELDS.length + 2}`,
+    `#columns:${[...ANKI_FIELDS, 'Deck', 'Tags'].join('\t')}`,
+  ];
+  // Mục đã xếp vào bộ thẻ thì thành bộ con cùng tên trong Anki
+  const deckOf = (item: WordData | SentenceData, fallback: string) => `${deck}::${item.deck || fallback}`;
+  const tagsOf = (item: WordData | SentenceData, extra: string[]) => [...tags, ...extra, ...(item.tags || []).map(toTag)].filter(Boolean).join(' ');
+  const rows = [
+    ...words.map(w => [...wordRow(w), deckOf(w, 'Từ vựng'), tagsOf(w, ['word', toTag(w.part_of_speech || '')])]),
+    ...sentences.map(s => [...sentenceRow(s), deckOf(s, 'Mẫu câu'), tagsOf(s, ['sentence'])]),
+  ];
+  return [...header, ...rows.map(row => row.join('\t'))].join('\n') + '\n';
+};
+
+export const downloadAnkiNotes = (words: WordData[], sentences: SentenceData[], options: AnkiExportOptions) =>
+  downloadFile(buildAnkiNotes(words, sentences, options), `FlashVocab_Anki_${new Date().toISOString().slice(0, 10)}.txt`, 'text/plain;charset=utf-8;');
@@ -0,0 +1,241 @@
+import { WordData, SentenceData, ReviewLogEntry } from "../types";
+import { runTransaction, requestToPromise } from "./storage";
+import { sameContent } from "./library";
+import { downloadFile } from "./download";
+
+export const BACKUP_FORMAT = 'flashvocab-backup';
+export const BACKUP_VERSION = 1;
+
+// Các cài đặt người dùng đi kèm bản sao lưu
+const SETTING_KEYS = ['google_sheets_url', 'vocab_auto_read', 'srs_scheduler'];
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: number;
+  words: WordData[];
+  sentences: SentenceData[];
+  reviews: ReviewLogEntry[];
+  settings: Record<string, string>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  words: number;
+  sentences: number;
+  reviews: number;
+}
+
+export const createBackup = async (): Promise<BackupFile> => {
+  const { words, sentences, reviews } = await runTransaction(['words', 'sentences', 'reviews'], 'readonly', async tx => {
+    const [words, sentences, reviews] = await Promise.all([
+      requestToPromise<WordData[]>(tx.objectStore('words').getAll()),
+      requestToPromise<SentenceData[]>(tx.objectStore('sentences').getAll()),
+      requestToPromise<ReviewLogEntry[]>(tx.objectStore('reviews').getAll()),
+    ]);
+    return { words, sentences, reviews };
+  });
+  const settings: Record<string, string> = {};
+  SETTING_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  });
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exported_at: Date.now(), words, sentences, reviews, settings };
+};
+
+export const downloadBackup = async () => {
+  const backup = await createBackup();
+  downloadFile(JSON.stringify(backup), `FlashVocab_Backup_${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+const isStringArray = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(isString));
+
+const NUMBER_FIELDS = ['srs_level', 'next_review', 'last_review', 'interval_days', 'repetitions', 'lapses', 'ease_factor', 'stability', 'difficulty', 'created_at', 'updated_at'] as const;
+const WORD_TEXT_FIELDS = ['word', 'meaning_vi', 'definition_en', 'ipa', 'syllables', 'spelling_tip', 'part_of_speech', 'example_en', 'example_vi', 'example_b2_en', 'example_b2_vi', 'root_word', 'mnemonic'] as const;
+const WORD_LIST_FIELDS = ['synonyms', 'antonyms', 'word_family', 'collocations'] as const;
+const SENTENCE_TEXT_FIELDS = ['sentence', 'meaning_vi', 'grammar_breakdown', 'usage_context'] as const;
+const RATINGS: ReviewLogEntry['rating'][] = ['fail', 'hard', 'good', 'easy'];
+const MODES: ReviewLogEntry['mode'][] = ['flashcard', 'typing', 'quiz'];
+
+const validateSrs = (item: Record<string, unknown>) => NUMBER_FIELDS.every(key => isOptionalNumber(item[key]));
+
+const validateWord = (item: unknown) =>
+  isObject(item) && isString(item.id) && isString(item.word) && isString(item.meaning_vi) && validateSrs(item) &&
+  WORD_LIST_FIELDS.every(key => isStringArray(item[key]));
+
+const validateSentence = (item: unknown) =>
+  isObject(item) && isString(item.id) && isString(item.sentence) && isString(item.meaning_vi) && validateSrs(item) &&
+  (item.similar_sentences === undefined || Array.isArray(item.similar_sentences));
+
+const validateReview = (entry: unknown) =>
+  isObject(entry) && isString(entry.card_id) && typeof entry.timestamp === 'number' &&
+  RATINGS.some(rating => rating === entry.rating);
+
+// Sau khi kiểm tra, chỉ chép các trường đã biết và ép đúng kiểu; trường lạ trong file không lọt vào thư viện
+const text = (value: unknown) => value === undefined || value === null ? '' : String(value);
+const optionalText = (value: unknown) => value === undefined || value === null ? undefined : String(value);
+const optionalNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const textList = (value: unknown) => Array.isArray(value) ? value.map(text) : [];
+
+const toMeta = (item: Record<string, unknown>) => {
+  const meta: Record<string, unknown> = { id: text(item.id) };
+  NUMBER_FIELDS.forEach(key => { if (optionalNumber(item[key]) !== undefined) meta[key] = item[key]; });
+  if (item.deck !== undefined) meta.deck = optionalText(item.deck);
+  if (Array.isArray(item.tags)) meta.tags = textList(item.tags);
+  if (item.notes !== undefined) meta.notes = optionalText(item.notes);
+  if (isObject(item.edited_fields)) {
+    meta.edited_fields = Object.fromEntries(Object.entries(item.edited_fields).filter(([, time]) => optionalNumber(time) !== undefined));
+  }
+  return meta;
+};
+
+const toWord = (item: Record<string, unknown>) => {
+  const word = toMeta(item);
+  WORD_TEXT_FIELDS.forEach(key => { word[key] = text(item[key]); });
+  WORD_LIST_FIELDS.forEach(key => { word[key] = textList(item[key]); });
+  return word as unknown as WordData;
+};
+
+const toSentence = (item: Record<string, unknown>) => {
+  const sentence = toMeta(item);
+  SENTENCE_TEXT_FIELDS.forEach(key => { sentence[key] = text(item[key]); });
+  sentence.naturalness_score = Number(item.naturalness_score) || 0;
+  sentence.similar_sentences = (Array.isArray(item.similar_sentences) ? item.similar_sentences : [])
+    .filter(isObject)
+    .map(pair => ({ en: text(pair.en), vi: text(pair.vi) }));
+  if (optionalNumber(item.date_saved) !== undefined) sentence.date_saved = item.date_saved;
+  return sentence as unknown as SentenceData;
+};
+
+const toReview = (entry: Record<string, unknown>): ReviewLogEntry => ({
+  card_id: text(entry.card_id),
+  card_type: entry.card_type === 'sentence' ? 'sentence' : 'word',
+  timestamp: Number(entry.timestamp),
+  rating: RATINGS.find(rating => rating === entry.rating) || 'good',
+  mode: MODES.find(mode => mode === entry.mode) || 'flashcard',
+  ...(typeof entry.correct === 'boolean' ? { correct: entry.correct } : {}),
+  scheduler: text(entry.scheduler),
+  response_ms: Number(entry.response_ms) || 0,
+  prev_interval: Number(entry.prev_interval) || 0,
+  new_interval: Number(entry.new_interval) || 0,
+  next_review: Number(entry.next_review) || 0,
+});
+
+// Kiểm tra toàn bộ file trước khi ghi bất cứ thứ gì; trả về danh sách lỗi dễ đọc
+export const validateBackup = (data: unknown): { backup: BackupFile | null; errors: string[] } => {
+  const errors: string[] = [];
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['Không phải file sao lưu FlashVocab.'] };
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    errors.push(`Phiên bản sao lưu không được hỗ trợ (${data.version}).`);
+  }
+  const list = (key: 'words' | 'sentences' | 'reviews'): unknown[] => {
+    const value = data[key];
+    if (Array.isArray(value)) return value;
+    errors.push(`Thiếu danh sách "${key}".`);
+    return [];
+  };
+  const words = list('words');
+  const sentences = list('sentences');
+  const reviews = list('reviews');
+  if (errors.length) return { backup: null, errors };
+
+  const checks: [string, unknown[], (v: unknown) => boolean][] = [
+    ['từ vựng', words, validateWord],
+    ['mẫu câu', sentences, validateSentence],
+    ['lượt ôn', reviews, validateReview],
+  ];
+  checks.forEach(([label, list, validate]) => {
+    const invalid = list.filter(item => !validate(item)).length;
+    if (invalid) errors.push(`${invalid} ${label} không hợp lệ.`);
+  });
+  if (data.settings !== undefined && !isObject(data.settings)) errors.push('Phần cài đặt không hợp lệ.');
+
+  if (errors.length) return { backup: null, errors };
+
+  const settings: Record<string, string> = {};
+  if (isObject(data.settings)) Object.entries(data.settings).forEach(([key, value]) => { if (isString(value)) settings[key] = value; });
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: Number(data.version),
+      exported_at: Number(data.exported_at) || 0,
+      words: words.filter(isObject).map(toWord),
+      sentences: sentences.filter(isObject).map(toSentence),
+      reviews: reviews.filter(isObject).map(toReview),
+      settings,
+    },
+    errors,
+  };
+};
+
+export const parseBackupFile = async (file: File) => {
+  try {
+    return validateBackup(JSON.parse(await file.text()));
+  } catch (e) {
+    return { backup: null, errors: ['File không phải JSON hợp lệ.'] };
+  }
+};
+
+// Gộp theo id; mục trùng nội dung nhưng khác id được coi là cùng một thẻ và giữ bản sửa sau cùng
+const mergeItems = <T extends WordData | SentenceData>(existing: T[], incoming: T[], idMap: Map<string, string>) => {
+  const result = new Map(existing.map(item => [item.id!, item]));
+  incoming.forEach(item => {
+    const match = result.get(item.id!) ?? existing.find(old => sameContent(old, item));
+    if (!match) {
+      result.set(item.id!, item);
+      return;
+    }
+    idMap.set(item.id!, match.id!);
+    if ((item.updated_at || 0) > (match.updated_at || 0)) result.set(match.id!, { ...item, id: match.id });
+  });
+  return Array.from(result.values());
+};
+
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> => {
+  const summary = await runTransaction(['words', 'sentences', 'reviews'], 'readwrite', async tx => {
+    const wordsStore = tx.objectStore('words');
+    const sentencesStore = tx.objectStore('sentences');
+    const reviewsStore = tx.objectStore('reviews');
+
+    let words = backup.words;
+    let sentences = backup.sentences;
+    let reviews = backup.reviews;
+
+    if (mode === 'merge') {
+      const [oldWords, oldSentences, oldReviews] = await Promise.all([
+        requestToPromise<WordData[]>(wordsStore.getAll()),
+        requestToPromise<SentenceData[]>(sentencesStore.getAll()),
+        requestToPromise<ReviewLogEntry[]>(reviewsStore.getAll()),
+      ]);
+      const idMap = new Map<string, string>();
+      words = mergeItems(oldWords, words, idMap);
+      sentences = mergeItems(oldSentences, sentences, idMap);
+      const seen = new Set(oldReviews.map(r => `${r.card_id}@${r.timestamp}`));
+      reviews = [
+        ...oldReviews,
+        ...reviews
+          .map(r => ({ ...r, card_id: idMap.get(r.card_id) ?? r.card_id }))
+          .filter(r => !seen.has(`${r.card_id}@${r.timestamp}`)),
+      ];
+    }
+
+    wordsStore.clear();
+    sentencesStore.clear();
+    reviewsStore.clear();
+    words.forEach(w => wordsStore.put(w, w.id));
+    sentences.forEach(s => sentencesStore.put(s, s.id));
+    reviews.forEach(r => reviewsStore.add(r));
+    return { words: words.length, sentences: sentences.length, reviews: reviews.length };
+  });
+
+  Object.entries(backup.settings).forEach(([key, value]) => {
+    if (SETTING_KEYS.includes(key) && (mode === 'replace' || localStorage.getItem(key) === null)) localStorage.setItem(key, value);
+  });
+  return summary;
+};
@@ -0,0 +1,54 @@
+import { WordData } from "../types";
+import { lookupWord, lookupWordInContext } from "./geminiService";
+import { describeAiError } from "./aiErrors";
+import { isAbortError, runWithConcurrency } from "./requestControl";
+
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchStatus = 'pending' | 'loading' | 'done' | 'error';
+
+export interface BatchEntry {
+  input: string;
+  status: BatchStatus;
+  data?: WordData;
+  error?: string;
+  // Người dùng chọn bỏ qua, hoặc từ đã có sẵn trong thư viện
+  skipped: boolean;
+}
+
+// Danh sách dán từ bài học: mỗi dòng một từ hoặc ngăn bằng dấu phẩy/chấm phẩy/tab,
+// bỏ số thứ tự và gạch đầu dòng, loại trùng không phân biệt hoa thường
+export const parseWordList = (text: string) => {
+  const seen = new Set<string>();
+  return text
+    .split(/[\n\r,;\t]+/)
+    .map(part => part.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim())
+    .filter(word => {
+      const key = word.toLowerCase();
+      if (!word || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Tra lần lượt các mục có index trong `indexes`; mỗi mục xong (hoặc lỗi) thì báo qua onUpdate.
+// Mục có câu ngữ cảnh (contexts[index]) thì tra đúng nghĩa trong câu đó.
+export const lookupBatch = (
+  inputs: string[],
+  indexes: number[],
+  onUpdate: (index: number, patch: Partial<BatchEntry>) => void,
+  signal?: AbortSignal,
+  contexts: string[] = []
+) => runWithConcurrency(indexes, BATCH_CONCURRENCY, async index => {
+  onUpdate(index, { status: 'loading', error: undefined });
+  try {
+    const data = contexts[index] ? await lookupWordInContext(inputs[index], contexts[index], signal) : await lookupWord(inputs[index], signal);
+    onUpdate(index, { status: 'done', data });
+  } catch (err) {
+    if (isAbortError(err)) {
+      onUpdate(index, { status: 'pending' });
+      throw err;
+    }
+    onUpdate(index, { status: 'error', error: describeAiError(err).message });
+  }
+}, signal);
@@ -0,0 +1,94 @@
+import { SentenceData } from "../types";
+import { StudyItem } from "./studyQueue";
+import { isWordItem } from "./studyCards";
+import { touch } from "./library";
+
+// text: một dòng; long: nhiều dòng; list: mỗi dòng một mục; pairs: mỗi dòng "tiếng Anh => tiếng Việt"
+export type EditableFieldKind = 'text' | 'long' | 'list' | 'pairs';
+
+export interface EditableField {
+  key: string;
+  label: string;
+  kind: EditableFieldKind;
+  // Cho phép nhờ AI viết lại riêng trường này
+  regenerate: boolean;
+}
+
+const field = (key: string, label: string, kind: EditableFieldKind, regenerate = true): EditableField => ({ key, label, kind, regenerate });
+
+export const WORD_FIELDS: EditableField[] = [
+  field('word', 'Từ', 'text', false),
+  field('ipa', 'Phiên âm', 'text'),
+  field('part_of_speech', 'Từ loại', 'text'),
+  field('meaning_vi', 'Nghĩa tiếng Việt', 'text'),
+  field('definition_en', 'Định nghĩa tiếng Anh', 'long'),
+  field('syllables', 'Cấu trúc từ', 'text'),
+  field('spelling_tip', 'Mẹo chính tả', 'long'),
+  field('example_en', 'Ví dụ B1', 'long'),
+  field('example_vi', 'Dịch ví dụ B1', 'long'),
+  field('example_b2_en', 'Ví dụ B2+', 'long'),
+  field('example_b2_vi', 'Dịch ví dụ B2+', 'long'),
+  field('root_word', 'Gốc từ', 'text'),
+  field('mnemonic', 'Mẹo nhớ', 'long'),
+  field('synonyms', 'Từ đồng nghĩa', 'list'),
+  field('antonyms', 'Từ trái nghĩa', 'list'),
+  field('word_family', 'Họ hàng từ', 'list'),
+  field('collocations', 'Collocations', 'list'),
+];
+
+export const SENTENCE_FIELDS: EditableField[] = [
+  field('sentence', 'Câu', 'long', false),
+  field('meaning_vi', 'Nghĩa tiếng Việt', 'long'),
+  field('grammar_breakdown', 'Cấu trúc ngữ pháp', 'long'),
+  field('usage_context', 'Ngữ cảnh', 'long'),
+  field('similar_sentences', 'Cách nói tương tự', 'pairs'),
+];
+
+export const editableFields = (item: StudyItem) => isWordItem(item) ? WORD_FIELDS : SENTENCE_FIELDS;
+
+const PAIR_SEPARATOR = ' => ';
+
+const splitLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Giá trị trong thẻ <-> chuỗi hiển thị trong ô sửa
+export const toDraft = (item: StudyItem, field: EditableField): string => {
+  const value = (item as Record<string, any>)[field.key];
+  if (field.kind === 'list') return (value as string[] | undefined || []).join('\n');
+  if (field.kind === 'pairs') return (value as SentenceData['similar_sentences'] | undefined || []).map(pair => `${pair.en}${PAIR_SEPARATOR}${pair.vi}`).join('\n');
+  return String(value ?? '');
+};
+
+export const fromDraft = (field: EditableField, draft: string): unknown => {
+  if (field.kind === 'list') return splitLines(draft);
+  if (field.kind === 'pairs') {
+    return splitLines(draft).map(line => {
+      const [en, vi = ''] = line.split(PAIR_SEPARATOR);
+      return { en: en.trim(), vi: vi.trim() };
+    });
+  }
+  return field.kind === 'text' ? draft.trim() : draft.trim().replace(/\n{3,}/g, '\n\n');
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+// Ghi các trường đã sửa và đánh dấu thời điểm sửa; trường giữ nguyên giá trị thì không bị đánh dấu
+export const applyEdits = <T extends StudyItem>(item: T, patch: Record<string, unknown>, now: number = Date.now()): T => {
+  const changed = Object.keys(patch).filter(key => !sameValue((item as Record<string, any>)[key], patch[key]));
+  if (changed.length === 0) return item;
+  const edited = { ...item.edited_fields };
+  changed.forEach(key => { edited[key] = now; });
+  return touch({ ...item, ...Object.fromEntries(changed.map(key => [key, patch[key]])), edited_fields: edited }, now);
+};
+
+// Nhận bản từ nơi khác nhưng giữ những trường người dùng sửa trên máy sau mốc `since`.
+// Có giữ lại thì đổi updated_at để bản gộp được gửi ngược lên.
+export const keepLocalEdits = <T extends StudyItem>(incoming: T, local: StudyItem, since: number, now: number = Date.now()): T => {
+  const edits = Object.entries(local.edited_fields || {}).filter(([, time]) => time > since);
+  if (edits.length === 0) return incoming;
+  const kept = Object.fromEntries(edits.map(([key]) => [key, (local as Record<string, any>)[key]]));
+  return touch({ ...incoming, ...kept, edited_fields: { ...local.edited_fields, ...incoming.edited_fields, ...Object.fromEntries(edits) } }, now);
+};
+
+export const isEdited = (item: StudyItem, key: string) => !!item.edited_fields?.[key];
+
+export const itemKind = (item: StudyItem): 'word' | 'sentence' => isWordItem(item) ? 'word' : 'sentence';
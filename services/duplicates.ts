@@ -0,0 +1,125 @@
+import { WordData, SentenceData } from "../types";
+import { StudyItem } from "./studyQueue";
+import { isWordItem } from "./studyCards";
+import { itemText, sameContent, normalizeTags } from "./library";
+import { fillMissing } from "./spreadsheet";
+
+// Dạng bất quy tắc hay gặp -> dạng gốc
+const IRREGULAR: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', having: 'have', does: 'do', did: 'do', done: 'do', goes: 'go', went: 'go', gone: 'go',
+  ran: 'run', came: 'come', made: 'make', took: 'take', taken: 'take', gave: 'give', given: 'give',
+  saw: 'see', seen: 'see', knew: 'know', known: 'know', thought: 'think', brought: 'bring', bought: 'buy',
+  caught: 'catch', taught: 'teach', found: 'find', told: 'tell', said: 'say', paid: 'pay', left: 'leave',
+  felt: 'feel', kept: 'keep', slept: 'sleep', met: 'meet', sat: 'sit', stood: 'stand', understood: 'understand',
+  wrote: 'write', written: 'write', spoke: 'speak', spoken: 'speak', broke: 'break', broken: 'break',
+  chose: 'choose', chosen: 'choose', drove: 'drive', driven: 'drive', ate: 'eat', eaten: 'eat',
+  fell: 'fall', fallen: 'fall', began: 'begin', begun: 'begin', drank: 'drink', drunk: 'drink',
+  swam: 'swim', swum: 'swim', sang: 'sing', sung: 'sing', won: 'win', lost: 'lose', held: 'hold',
+  built: 'build', sent: 'send', spent: 'spend', lent: 'lend', meant: 'mean', heard: 'hear', sold: 'sell',
+  grew: 'grow', grown: 'grow', threw: 'throw', thrown: 'throw', flew: 'fly', flown: 'fly', forgot: 'forget', forgotten: 'forget',
+  dying: 'die', lying: 'lie', tying: 'tie',
+  children: 'child', men: 'man', women: 'woman', people: 'person', mice: 'mouse', feet: 'foot', teeth: 'tooth', geese: 'goose',
+  better: 'good', best: 'good', worse: 'bad', worst: 'bad',
+};
+
+// Trông như có hậu tố nhưng là từ riêng (evening không phải even + ing, news không phải new + s)
+const NOT_INFLECTED = new Set([
+  'evening', 'morning', 'during', 'nothing', 'something', 'anything', 'everything', 'ceiling', 'wedding', 'pudding',
+  'darling', 'sibling', 'herring', 'united', 'news', 'always', 'perhaps', 'series', 'species', 'lens', 'bias',
+]);
+
+// Từ ngắn hơn (bed, bus, red) không bóc hậu tố; gốc còn lại cũng phải đủ dài
+const MIN_WORD = 4;
+const MIN_STEM = 3;
+const HAS_VOWEL = /[aeiouy]/;
+
+// Các dạng gốc có thể có của một từ. Thà đoán thừa còn hơn sót vì người dùng luôn được hỏi trước khi gộp.
+export const lemmaCandidates = (word: string) => {
+  const w = word.trim().toLowerCase();
+  const result = new Set([w]);
+  if (IRREGULAR[w]) result.add(IRREGULAR[w]);
+  // Cụm từ, từ có gạch nối... chỉ so nguyên văn
+  if (!/^[a-z]+$/.test(w) || w.length < MIN_WORD || NOT_INFLECTED.has(w)) return result;
+
+  const add = (stem: string) => { if (stem.length >= MIN_STEM) result.add(stem); };
+  // running -> run, making -> make; gốc không có nguyên âm (thing -> th) thì không phải hậu tố
+  const addVerbStem = (stem: string) => {
+    if (!HAS_VOWEL.test(stem)) return;
+    add(stem);
+    add(`${stem}e`);
+    if (/([^aeiou])\1$/.test(stem)) add(stem.slice(0, -1));
+  };
+
+  if (w.endsWith('ies')) add(`${w.slice(0, -3)}y`);
+  else if (w.endsWith('es')) { add(w.slice(0, -2)); add(w.slice(0, -1)); }
+  else if (w.endsWith('s') && !w.endsWith('ss')) add(w.slice(0, -1));
+  if (w.endsWith('ied')) add(`${w.slice(0, -3)}y`);
+  else if (w.endsWith('ed')) addVerbStem(w.slice(0, -2));
+  if (w.endsWith('ing')) addVerbStem(w.slice(0, -3));
+  return result;
+};
+
+export const sameLemma = (a: string, b: string) => {
+  const candidates = lemmaCandidates(a);
+  return [...lemmaCandidates(b)].some(candidate => candidates.has(candidate));
+};
+
+const POS_PATTERN = /noun|verb|adj|adv|pron|prep|conj|interj|det/g;
+const posCategories = (value: string | undefined) => new Set((value || '').toLowerCase().match(POS_PATTERN) || []);
+
+// Thiếu từ loại ở một bên thì không loại được nên coi như khớp; người dùng vẫn được hỏi trước khi gộp
+const samePartOfSpeech = (a: WordData, b: WordData) => {
+  const left = posCategories(a.part_of_speech);
+  const right = posCategories(b.part_of_speech);
+  return !left.size || !right.size || [...left].some(category => right.has(category));
+};
+
+// Khác chữ (chỉ khớp sau khi bóc hậu tố) thì phải cùng từ loại: news (noun) không phải dạng của new (adjective)
+const sameWord = (a: WordData, b: WordData) => {
+  if (a.word.trim().toLowerCase() === b.word.trim().toLowerCase()) return true;
+  return sameLemma(a.word, b.word) && samePartOfSpeech(a, b);
+};
+
+// Câu khác nhau chỉ ở hoa thường, dấu câu hay khoảng trắng vẫn là một câu
+const normalizeSentence = (sentence: string) => sentence.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Thẻ gần trùng (khác dạng từ, khác dấu câu) trong thư viện; trùng khít thì đã do findSaved/sameContent lo
+export const findDuplicate = (item: StudyItem, pool: StudyItem[]) => pool.find(saved => {
+  if ((item.id && saved.id === item.id) || isWordItem(saved) !== isWordItem(item) || sameContent(saved, item)) return false;
+  return isWordItem(item)
+    ? sameWord(item, saved as WordData)
+    : normalizeSentence(itemText(item)) === normalizeSentence(itemText(saved));
+});
+
+const unionBy = <T>(values: T[], key: (value: T) => string) => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const k = key(value);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+const lowerTrim = (value: string) => value.trim().toLowerCase();
+
+// Gộp dữ liệu mới vào thẻ đã có: giữ id, tiến độ ôn tập, ghi chú và mọi trường đã có nội dung;
+// chỉ lấp trường trống, nối thêm các danh sách và ghi dạng từ mới vào họ hàng từ
+export const mergeDuplicate = <T extends StudyItem>(existing: T, incoming: StudyItem): T => {
+  const merged = fillMissing<StudyItem>(existing, { ...incoming, id: existing.id, created_at: existing.created_at }) as T;
+  // Trường người dùng đã tự sửa (kể cả sửa thành rỗng) giữ nguyên
+  (Object.keys(existing.edited_fields || {}) as (keyof T)[]).forEach(key => { merged[key] = existing[key]; });
+  merged.tags = normalizeTags([...(existing.tags || []), ...(incoming.tags || [])]);
+  if (isWordItem(merged) && isWordItem(incoming) && isWordItem(existing)) {
+    (['synonyms', 'antonyms', 'collocations'] as const).forEach(key => {
+      merged[key] = unionBy([...(existing[key] || []), ...(incoming[key] || [])], lowerTrim);
+    });
+    const forms = lowerTrim(incoming.word) === lowerTrim(existing.word) ? [] : [incoming.word.trim()];
+    merged.word_family = unionBy([...(existing.word_family || []), ...forms, ...(incoming.word_family || [])], lowerTrim);
+  } else if (!isWordItem(merged)) {
+    const pairs = (item: StudyItem) => (item as SentenceData).similar_sentences || [];
+    (merged as SentenceData).similar_sentences = unionBy([...pairs(existing), ...pairs(incoming)], pair => lowerTrim(pair.en));
+  }
+  return merged;
+};
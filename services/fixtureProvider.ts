@@ -0,0 +1,88 @@
+import { WordData, SentenceData, SentenceEvaluation, PronunciationFeedback } from "../types";
+import { AiProvider } from "./aiProvider";
+
+// Provider không cần mạng: cùng đầu vào luôn ra cùng kết quả, dùng để phát triển và thử nghiệm offline
+
+const FIXTURE_WORDS: Record<string, Partial<WordData>> = {
+  apple: {
+    meaning_vi: 'quả táo', definition_en: 'A round fruit with red or green skin.', ipa: 'ˈæp.əl', syllables: 'ap-ple',
+    part_of_speech: 'noun', example_en: 'She ate an apple for lunch.', example_vi: 'Cô ấy ăn một quả táo vào bữa trưa.',
+    synonyms: [], antonyms: [], word_family: ['apples'], collocations: ['apple pie', 'apple juice'],
+  },
+  run: {
+    meaning_vi: 'chạy', definition_en: 'To move quickly on foot.', ipa: 'rʌn', syllables: 'run',
+    part_of_speech: 'verb', example_en: 'I run every morning.', example_vi: 'Tôi chạy bộ mỗi sáng.',
+    synonyms: ['sprint', 'jog'], antonyms: ['walk'], word_family: ['runner', 'running'], collocations: ['run fast', 'run a business'],
+  },
+};
+
+// Băm chuỗi ổn định để sinh điểm số giả nhưng lặp lại được
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const fixtureWord = (word: string): WordData => ({
+  word,
+  meaning_vi: `nghĩa của "${word}"`,
+  definition_en: `Fixture definition of ${word}.`,
+  ipa: word,
+  syllables: word,
+  spelling_tip: `${word.length} chữ cái`,
+  part_of_speech: 'noun',
+  example_en: `This is an example with ${word}.`,
+  example_vi: `Đây là ví dụ với ${word}.`,
+  example_b2_en: `A more advanced example using ${word} in context.`,
+  example_b2_vi: `Một ví dụ nâng cao hơn dùng ${word} trong ngữ cảnh.`,
+  root_word: word,
+  mnemonic: `Hãy nhớ "${word}" bằng cách đọc to ba lần.`,
+  synonyms: [],
+  antonyms: [],
+  word_family: [],
+  collocations: [],
+  ...FIXTURE_WORDS[word],
+});
+
+const fixtureSentence = (sentence: string): SentenceData => ({
+  sentence,
+  meaning_vi: `Bản dịch mẫu của: ${sentence}`,
+  grammar_breakdown: 'Chủ ngữ + động từ + tân ngữ (dữ liệu mẫu).',
+  usage_context: 'Dùng trong giao tiếp hằng ngày (dữ liệu mẫu).',
+  naturalness_score: 5 + (hash(sentence) % 6),
+  similar_sentences: [{ en: `${sentence} (variant)`, vi: 'Câu tương tự (dữ liệu mẫu).' }],
+});
+
+const fixtureEvaluation = (targetWord: string, userSentence: string): SentenceEvaluation => {
+  const usesWord = userSentence.toLowerCase().includes(targetWord.toLowerCase());
+  return {
+    score: usesWord ? 70 + (hash(userSentence) % 31) : 30,
+    corrected_sentence: userSentence.trim().replace(/^\w/, c => c.toUpperCase()).replace(/([^.!?])$/, '$1.'),
+    explanation_vi: usesWord ? 'Câu dùng đúng từ mục tiêu (dữ liệu mẫu).' : `Câu chưa dùng từ "${targetWord}" (dữ liệu mẫu).`,
+    is_natural: usesWord,
+  };
+};
+
+const fixturePronunciation = (target: string, base64Audio: string): PronunciationFeedback => {
+  const score = 50 + (hash(target + base64Audio.length) % 51);
+  return {
+    score,
+    is_correct: score >= 70,
+    feedback_vi: score >= 70 ? 'Phát âm tốt (dữ liệu mẫu).' : 'Cần luyện thêm (dữ liệu mẫu).',
+    detected_speech: target,
+  };
+};
+
+const reply = (value: unknown) => Promise.resolve(JSON.stringify(value));
+
+export const fixtureProvider: AiProvider = {
+  id: 'fixture',
+  label: 'Offline (dữ liệu mẫu)',
+  lookupWord: (normalized) => reply(fixtureWord(normalized)),
+  lookupWordInContext: (word, sentence) => reply({ ...fixtureWord(word), example_en: sentence, example_vi: `Bản dịch mẫu của: ${sentence}` }),
+  lookupSentence: (normalized) => reply(fixtureSentence(normalized)),
+  evaluateSentence: (targetWord, userSentence) => reply(fixtureEvaluation(targetWord, userSentence)),
+  checkPronunciation: (target, base64Audio) => reply(fixturePronunciation(target, base64Audio)),
+  regenerateField: ({ kind, text, field }) =>
+    reply({ value: ((kind === 'word' ? fixtureWord(text) : fixtureSentence(text)) as Record<string, any>)[field] }),
+};
@@ -0,0 +1,33 @@
+import { GoogleGenAI } from "@google/genai";
+import { createJsonProvider } from "./aiProvider";
+import { AiError } from "./aiErrors";
+
+const MODEL = "gemini-3-flash-preview";
+
+// Tạo client khi cần để chọn provider khác không đòi API key của Gemini
+let ai: GoogleGenAI | null = null;
+const client = () => ai ?? (ai = new GoogleGenAI({ apiKey: process.env.API_KEY }));
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+export const geminiProvider = createJsonProvider('gemini', 'Gemini', async (request, signal) => {
+  if (!process.env.API_KEY) throw new AiError('auth', 'GEMINI_API_KEY is not set');
+  const response = await client().models.generateContent({
+    model: MODEL,
+    contents: request.audio
+      ? { parts: [{ inlineData: { data: request.audio.data, mimeType: request.audio.mimeType } }, { text: request.prompt }] }
+      : request.prompt,
+    config: {
+      systemInstruction: request.system,
+      responseMimeType: "application/json",
+      responseSchema: request.schema,
+      temperature: request.temperature ?? 0,
+      abortSignal: signal,
+    },
+  });
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AiError('blocked', `Gemini blocked the request (${response.promptFeedback?.blockReason || finishReason})`);
+  }
+  return response.text ?? '';
+}, { maxRequests: 5, intervalMs: 5000 });
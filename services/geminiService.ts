@@ -1,159 +1,154 @@
-
-import { GoogleGenAI, Type } from "@google/genai";
 import { WordData, SentenceData, PronunciationFeedback, SentenceEvaluation } from "../types";
+import { AiProvider, AiProviderId, AiCallOptions, FieldRegeneration } from "./aiProvider";
+import { wordSchema, sentenceSchema, evaluationSchema, pronunciationSchema, fieldSchema } from "./aiPrompts";
+import { parseAndValidate } from "./aiValidation";
+import { AiResponseError, classifyAiError } from "./aiErrors";
+import { createCoalescer, createRateLimiter, isAbortError, abortError, sleep, throwIfAborted } from "./requestControl";
+import { geminiProvider } from "./geminiProvider";
+import { proxyProvider } from "./proxyProvider";
+import { openAiProvider } from "./openAiProvider";
+import { fixtureProvider } from "./fixtureProvider";
+import { getCachedLookup, putCachedLookup } from "./lookupCache";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const wordCache = new Map<string, WordData>();
-const sentenceCache = new Map<string, SentenceData>();
-
-const wordSchema = {
-  type: Type.OBJECT,
-  properties: {
-    word: { type: Type.STRING, description: "The English word (MUST BE EXACTLY SAME as input if input is English)" },
-    meaning_vi: { type: Type.STRING, description: "Main Vietnamese meaning" },
-    definition_en: { type: Type.STRING, description: "Short, simple English definition (max 15 words)" },
-    ipa: { type: Type.STRING },
-    syllables: { type: Type.STRING },
-    spelling_tip: { type: Type.STRING },
-    part_of_speech: { type: Type.STRING },
-    example_en: { type: Type.STRING },
-    example_vi: { type: Type.STRING },
-    example_b2_en: { type: Type.STRING },
-    example_b2_vi: { type: Type.STRING },
-    root_word: { type: Type.STRING, description: "The origin word or root of the word" },
-    mnemonic: { type: Type.STRING, description: "Memory trick to remember this word" },
-    synonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
-    antonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
-    word_family: { type: Type.ARRAY, items: { type: Type.STRING } },
-    collocations: { type: Type.ARRAY, items: { type: Type.STRING } },
-  },
-  required: ["word", "meaning_vi", "definition_en", "ipa", "example_en", "example_vi", "root_word", "mnemonic"],
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  proxy: proxyProvider,
+  openai: openAiProvider,
+  fixture: fixtureProvider,
 };
 
-const sentenceSchema = {
-  type: Type.OBJECT,
-  properties: {
-    sentence: { type: Type.STRING, description: "The English version of the sentence" },
-    meaning_vi: { type: Type.STRING, description: "Vietnamese translation/original" },
-    grammar_breakdown: { type: Type.STRING },
-    usage_context: { type: Type.STRING },
-    naturalness_score: { type: Type.NUMBER },
-    similar_sentences: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          en: { type: Type.STRING },
-          vi: { type: Type.STRING }
-        }
-      }
-    }
-  },
-  required: ["sentence", "meaning_vi", "grammar_breakdown", "usage_context", "naturalness_score", "similar_sentences"]
+const PROVIDER_KEY = 'ai_provider';
+
+const isProviderId = (value: unknown): value is AiProviderId => typeof value === 'string' && value in AI_PROVIDERS;
+
+// AI_PROVIDER trong .env.local chỉ là mặc định; lựa chọn trong phần cài đặt được ưu tiên
+export const getAiProviderId = (): AiProviderId => {
+  const stored = localStorage.getItem(PROVIDER_KEY);
+  if (isProviderId(stored)) return stored;
+  return isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'gemini';
 };
 
-const evaluationSchema = {
-  type: Type.OBJECT,
-  properties: {
-    score: { type: Type.NUMBER, description: "Score from 0 to 100" },
-    corrected_sentence: { type: Type.STRING, description: "The improved/correct version of the sentence" },
-    explanation_vi: { type: Type.STRING, description: "Explanation of errors and tips in Vietnamese" },
-    is_natural: { type: Type.BOOLEAN, description: "Whether the sentence sounds like a native speaker" },
-  },
-  required: ["score", "corrected_sentence", "explanation_vi", "is_natural"],
+// Bộ nhớ đệm tra cứu tách theo provider nên đổi provider không cần xóa gì
+export const setAiProviderId = (id: AiProviderId) => localStorage.setItem(PROVIDER_KEY, id);
+
+export const getAiProvider = (id: AiProviderId = getAiProviderId()) => AI_PROVIDERS[id];
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 800;
+
+const limiters = new Map<AiProviderId, (signal?: AbortSignal) => Promise<void>>();
+const waitForSlot = (provider: AiProvider, signal?: AbortSignal) => {
+  if (!provider.rateLimit) return Promise.resolve();
+  if (!limiters.has(provider.id)) limiters.set(provider.id, createRateLimiter(provider.rateLimit));
+  return limiters.get(provider.id)!(signal);
 };
 
-const pronunciationSchema = {
-  type: Type.OBJECT,
-  properties: {
-    score: { type: Type.NUMBER },
-    is_correct: { type: Type.BOOLEAN },
-    feedback_vi: { type: Type.STRING },
-    detected_speech: { type: Type.STRING },
-  },
-  required: ["score", "is_correct", "feedback_vi", "detected_speech"],
+// Lỗi tạm thời (mạng, giới hạn lượt gọi) thì thử lại với thời gian chờ tăng dần; lỗi khác báo ngay dưới dạng AiError.
+// Yêu cầu bị hủy khi còn xếp hàng thì không bao giờ được gửi đi.
+const withBackoff = async (provider: AiProvider, call: () => Promise<string>, signal?: AbortSignal) => {
+  for (let attempt = 1; ; attempt++) {
+    await waitForSlot(provider, signal);
+    try {
+      return await call();
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) throw abortError();
+      const error = classifyAiError(err);
+      if (!error.transient || attempt >= MAX_ATTEMPTS) throw error;
+      await sleep(RETRY_BASE_MS * 2 ** (attempt - 1) + Math.random() * 200, signal);
+    }
+  }
+};
+
+// Kiểm tra kết quả theo schema; sai thì nhờ AI sửa đúng một lần rồi mới báo lỗi
+const requestJson = async <T>(
+  task: string,
+  schema: Record<string, any>,
+  provider: AiProvider,
+  call: (options: AiCallOptions) => Promise<string>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const first = await withBackoff(provider, () => call({ signal }), signal);
+  const checked = parseAndValidate<T>(first, schema);
+  if (!checked.errors.length) return checked.value!;
+
+  console.warn(`Invalid AI response for ${task}, asking for a repair`, checked.errors);
+  const repaired = parseAndValidate<T>(
+    await withBackoff(provider, () => call({ signal, repair: { previous: first, issues: checked.errors } }), signal),
+    schema
+  );
+  if (repaired.errors.length) throw new AiResponseError(task, repaired.errors);
+  return repaired.value!;
 };
 
-export const lookupWord = async (input: string): Promise<WordData> => {
+const wordRequests = createCoalescer<WordData>();
+const contextRequests = createCoalescer<WordData>();
+const sentenceRequests = createCoalescer<SentenceData>();
+
+// Tra trong bộ nhớ đệm (IndexedDB) trước nên từ đã tra hiện ngay và dùng được khi offline
+export const lookupWord = async (input: string, signal?: AbortSignal): Promise<WordData> => {
   const normalized = input.trim().toLowerCase();
-  if (wordCache.has(normalized)) return wordCache.get(normalized)!;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview", 
-    contents: `Analyze this English/Vietnamese word: "${normalized}"`,
-    config: {
-      systemInstruction: `You are an ultra-fast bilingual dictionary.
-      STRICT RULES:
-      1. If input is English (e.g. 'raw', 'exit'), DO NOT change it. The "word" field MUST be the same as input.
-      2. If input is Vietnamese, translate to the most precise English word first.
-      3. Split 'root_word' and 'mnemonic' into separate fields.
-      4. Speed is top priority. JSON output only.`,
-      responseMimeType: "application/json",
-      responseSchema: wordSchema,
-      temperature: 0,
-    },
-  });
-  
-  const result = JSON.parse(response.text) as WordData;
-  wordCache.set(normalized, result);
-  return result;
+  const provider = getAiProvider();
+  const cached = await getCachedLookup<WordData>('word', provider.id, normalized);
+  // Người dùng đã gõ tiếp trong lúc đọc bộ nhớ đệm thì bỏ kết quả cũ
+  throwIfAborted(signal);
+  if (cached) return cached;
+
+  return wordRequests(`${provider.id}:${normalized}`, async shared => {
+    const result = await requestJson<WordData>('word', wordSchema, provider, options => provider.lookupWord(normalized, options), shared);
+    await putCachedLookup('word', provider.id, normalized, result);
+    return result;
+  }, signal);
+};
+
+// Cùng một từ trong hai câu khác nhau có thể khác nghĩa nên khóa cache gồm cả câu.
+// Câu gốc luôn là ví dụ chính để khi lưu thẻ, người học nhớ được mình gặp từ ở đâu.
+export const lookupWordInContext = async (word: string, sentence: string, signal?: AbortSignal): Promise<WordData> => {
+  const normalized = word.trim().toLowerCase();
+  const context = sentence.trim().replace(/\s+/g, ' ');
+  const provider = getAiProvider();
+  const key = `${normalized}\n${context}`;
+  const cached = await getCachedLookup<WordData>('context', provider.id, key);
+  throwIfAborted(signal);
+  if (cached) return cached;
+
+  return contextRequests(`${provider.id}:${key}`, async shared => {
+    const result = await requestJson<WordData>('context', wordSchema, provider, options => provider.lookupWordInContext(normalized, context, options), shared);
+    const withContext = { ...result, example_en: context };
+    await putCachedLookup('context', provider.id, key, withContext);
+    return withContext;
+  }, signal);
 };
 
-export const lookupSentence = async (input: string): Promise<SentenceData> => {
+export const lookupSentence = async (input: string, signal?: AbortSignal): Promise<SentenceData> => {
   const normalized = input.trim();
-  if (sentenceCache.has(normalized)) return sentenceCache.get(normalized)!;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview", 
-    contents: `Analyze sentence: "${normalized}"`,
-    config: {
-      systemInstruction: `Analyze English/Vietnamese sentence. 
-      If Vietnamese, translate to natural English. 
-      The "sentence" field MUST be the English version. 
-      JSON only.`,
-      responseMimeType: "application/json",
-      responseSchema: sentenceSchema,
-      temperature: 0,
-    },
-  });
-  
-  const result = JSON.parse(response.text) as SentenceData;
-  sentenceCache.set(normalized, result);
-  return result;
+  const provider = getAiProvider();
+  const cached = await getCachedLookup<SentenceData>('sentence', provider.id, normalized);
+  // Người dùng đã gõ tiếp trong lúc đọc bộ nhớ đệm thì bỏ kết quả cũ
+  throwIfAborted(signal);
+  if (cached) return cached;
+
+  return sentenceRequests(`${provider.id}:${normalized}`, async shared => {
+    const result = await requestJson<SentenceData>('sentence', sentenceSchema, provider, options => provider.lookupSentence(normalized, options), shared);
+    await putCachedLookup('sentence', provider.id, normalized, result);
+    return result;
+  }, signal);
 };
 
-export const evaluateSentence = async (targetWord: string, userSentence: string): Promise<SentenceEvaluation> => {
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Evaluate this English sentence using the word "${targetWord}": "${userSentence}"`,
-    config: {
-      systemInstruction: `You are an English teacher. 
-      Grade the sentence (0-100), provide a corrected version, and explain errors in Vietnamese.
-      Be encouraging but precise. JSON only.`,
-      responseMimeType: "application/json",
-      responseSchema: evaluationSchema,
-      temperature: 0,
-    }
-  });
-  return JSON.parse(response.text) as SentenceEvaluation;
+export const evaluateSentence = (targetWord: string, userSentence: string, signal?: AbortSignal): Promise<SentenceEvaluation> => {
+  const provider = getAiProvider();
+  return requestJson('evaluation', evaluationSchema, provider, options => provider.evaluateSentence(targetWord, userSentence, options), signal);
 };
 
-export const checkPronunciation = async (target: string, base64Audio: string, mimeType: string): Promise<PronunciationFeedback> => {
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: {
-      parts: [
-        { inlineData: { data: base64Audio, mimeType: mimeType } },
-        { text: `Check pronunciation for: "${target}"` }
-      ]
-    },
-    config: {
-      systemInstruction: "Pronunciation coach. Be brief. JSON output.",
-      responseMimeType: "application/json",
-      responseSchema: pronunciationSchema,
-      temperature: 0,
-    }
-  });
-  return JSON.parse(response.text) as PronunciationFeedback;
+export const checkPronunciation = (target: string, base64Audio: string, mimeType: string, signal?: AbortSignal): Promise<PronunciationFeedback> => {
+  const provider = getAiProvider();
+  return requestJson('pronunciation', pronunciationSchema, provider, options => provider.checkPronunciation(target, base64Audio, mimeType, options), signal);
+};
+
+// Không dùng bộ nhớ đệm: người dùng bấm sinh lại là muốn một phương án khác
+export const regenerateField = async <T>(request: FieldRegeneration, signal?: AbortSignal): Promise<T> => {
+  const schema = fieldSchema(request.kind, request.field);
+  if (!schema) throw new Error(`Field "${request.field}" cannot be regenerated`);
+  const provider = getAiProvider();
+  const result = await requestJson<{ value: T }>('field', schema, provider, options => provider.regenerateField(request, options), signal);
+  return result.value;
 };
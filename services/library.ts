@@ -0,0 +1,52 @@
+import { WordData, SentenceData } from "../types";
+import { StudyItem } from "./studyQueue";
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isWord = (item: StudyItem): item is WordData => 'word' in item;
+
+// Khóa theo nội dung, chỉ dùng để nhận diện dữ liệu cũ chưa có id
+export const legacyKey = (item: StudyItem) =>
+  isWord(item) ? `word:${item.word.toLowerCase()}` : `sentence:${(item as SentenceData).sentence}`;
+
+export const itemText = (item: StudyItem) => isWord(item) ? item.word : (item as SentenceData).sentence;
+
+export const sameContent = (a: StudyItem, b: StudyItem) =>
+  isWord(a) === isWord(b) && itemText(a).trim().toLowerCase() === itemText(b).trim().toLowerCase();
+
+// Gắn id và mốc thời gian cho một mục sắp lưu; mục đã có thì giữ nguyên
+export const withLibraryMeta = <T extends StudyItem>(item: T, now: number = Date.now()): T => {
+  const created = item.created_at ?? ('date_saved' in item && item.date_saved ? item.date_saved : now);
+  return {
+    ...item,
+    id: item.id ?? createId(),
+    created_at: created,
+    updated_at: item.updated_at ?? created,
+  };
+};
+
+export const touch = <T extends StudyItem>(item: T, now: number = Date.now()): T => ({ ...item, updated_at: now });
+
+// Thẻ viết thường, không trùng; nhận chuỗi ngăn cách bằng dấu phẩy hoặc mảng
+export const normalizeTags = (input: string | string[]) => {
+  const parts = Array.isArray(input) ? input : input.split(',');
+  return [...new Set(parts.map(tag => tag.trim().replace(/^#/, '').toLowerCase()).filter(Boolean))];
+};
+
+export const normalizeDeck = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+// Đếm số mục theo bộ thẻ / theo thẻ, sắp theo tên
+const countBy = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].map(([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const libraryDecks = (items: StudyItem[]) => countBy(items.flatMap(item => item.deck ? [item.deck] : []));
+
+export const libraryTags = (items: StudyItem[]) => countBy(items.flatMap(item => item.tags || []));
+
+export const newestFirst = (a: StudyItem, b: StudyItem) => (b.created_at || 0) - (a.created_at || 0);
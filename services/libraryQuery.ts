@@ -0,0 +1,82 @@
+import { WordData, SentenceData } from "../types";
+import { StudyItem, LibraryFilter, isDue, matchesFilter } from "./studyQueue";
+import { isWordItem } from "./studyCards";
+import { itemText } from "./library";
+
+export type LibrarySort = 'newest' | 'oldest' | 'next_review' | 'srs_level' | 'alphabet';
+
+export type DueFilter = 'all' | 'due' | 'not_due';
+
+// Toàn bộ trạng thái tìm kiếm / sắp xếp / lọc của thư viện, lưu lại giữa các lần mở
+export interface LibraryQuery extends LibraryFilter {
+  search: string;
+  sort: LibrarySort;
+  partOfSpeech: string | null;
+  due: DueFilter;
+  // Chỉ hiện mục có mẹo nhớ hoặc ghi chú
+  hasMemoryAid: boolean;
+}
+
+export const DEFAULT_LIBRARY_QUERY: LibraryQuery = {
+  search: '', sort: 'newest', partOfSpeech: null, due: 'all', hasMemoryAid: false, level: null, deck: null, tag: null,
+};
+
+export const SORT_LABELS: Record<LibrarySort, string> = {
+  newest: 'Mới thêm',
+  oldest: 'Cũ nhất',
+  next_review: 'Sắp đến hạn ôn',
+  srs_level: 'Cấp độ SRS',
+  alphabet: 'A → Z',
+};
+
+const QUERY_KEY = 'library_query';
+
+export const loadLibraryQuery = (): LibraryQuery => {
+  try {
+    return { ...DEFAULT_LIBRARY_QUERY, ...JSON.parse(localStorage.getItem(QUERY_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_LIBRARY_QUERY;
+  }
+};
+
+export const saveLibraryQuery = (query: LibraryQuery) => localStorage.setItem(QUERY_KEY, JSON.stringify(query));
+
+// Bỏ dấu để gõ "tao" vẫn tìm ra "quả táo"
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase();
+
+const searchableText = (item: StudyItem) => {
+  const fields = isWordItem(item)
+    ? [item.word, item.meaning_vi, item.definition_en, item.example_en, item.example_vi, item.example_b2_en, item.example_b2_vi]
+    : [(item as SentenceData).sentence, item.meaning_vi, (item as SentenceData).usage_context, ...((item as SentenceData).similar_sentences || []).flatMap(s => [s.en, s.vi])];
+  return fold([...fields, item.notes].filter(Boolean).join('\n'));
+};
+
+// AI trả từ loại dạng "noun", "Verb, noun" hay "adjective (adj)"; tách thành từng loại riêng
+const splitPartOfSpeech = (value: string | undefined) =>
+  (value || '').toLowerCase().split(/[,/;]|\(|\)/).map(part => part.trim()).filter(part => part.length > 1);
+
+export const partsOfSpeech = (words: WordData[]) =>
+  [...new Set(words.flatMap(word => splitPartOfSpeech(word.part_of_speech)))].sort();
+
+export const matchesQuery = (item: StudyItem, query: LibraryQuery, now: number = Date.now()) => {
+  if (!matchesFilter(item, query)) return false;
+  if (query.due !== 'all' && isDue(item, now) !== (query.due === 'due')) return false;
+  if (query.hasMemoryAid && !((isWordItem(item) && item.mnemonic?.trim()) || item.notes?.trim())) return false;
+  // Mẫu câu không có từ loại nên bị ẩn khi đang lọc theo từ loại
+  if (query.partOfSpeech && !(isWordItem(item) && splitPartOfSpeech(item.part_of_speech).includes(query.partOfSpeech))) return false;
+  const terms = fold(query.search).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const text = searchableText(item);
+  return terms.every(term => text.includes(term));
+};
+
+const COMPARATORS: Record<LibrarySort, (a: StudyItem, b: StudyItem) => number> = {
+  newest: (a, b) => (b.created_at || 0) - (a.created_at || 0),
+  oldest: (a, b) => (a.created_at || 0) - (b.created_at || 0),
+  next_review: (a, b) => (a.next_review || 0) - (b.next_review || 0),
+  srs_level: (a, b) => (a.srs_level || 0) - (b.srs_level || 0),
+  alphabet: (a, b) => itemText(a).localeCompare(itemText(b), 'en', { sensitivity: 'base' }),
+};
+
+export const queryItems = <T extends StudyItem>(items: T[], query: LibraryQuery, now: number = Date.now()): T[] =>
+  items.filter(item => matchesQuery(item, query, now)).sort(COMPARATORS[query.sort] || COMPARATORS.newest);
@@ -0,0 +1,86 @@
+import { runTransaction, requestToPromise } from "./storage";
+
+export type LookupKind = 'word' | 'context' | 'sentence';
+
+interface CacheEntry<T = unknown> {
+  value: T;
+  size: number;
+  created_at: number;
+  accessed_at: number;
+}
+
+export interface LookupCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 2000;
+const MAX_BYTES = 5 * 1024 * 1024;
+
+// Khóa gồm cả provider: kết quả của nguồn AI này không dùng thay cho nguồn khác
+const cacheKey = (kind: LookupKind, providerId: string, normalized: string) => `${kind}:${providerId}:${normalized}`;
+
+const isExpired = (entry: CacheEntry, now: number) => now - entry.created_at > TTL_MS;
+
+// Bộ nhớ đệm chỉ để tăng tốc: lỗi IndexedDB không được làm hỏng lượt tra cứu
+export const getCachedLookup = async <T>(kind: LookupKind, providerId: string, normalized: string): Promise<T | undefined> => {
+  try {
+    return await runTransaction(['lookup_cache'], 'readwrite', async tx => {
+      const store = tx.objectStore('lookup_cache');
+      const key = cacheKey(kind, providerId, normalized);
+      const entry = await requestToPromise<CacheEntry<T> | undefined>(store.get(key));
+      if (!entry) return undefined;
+      const now = Date.now();
+      if (isExpired(entry, now)) {
+        store.delete(key);
+        return undefined;
+      }
+      store.put({ ...entry, accessed_at: now }, key);
+      return entry.value;
+    });
+  } catch (err) {
+    console.warn('Lookup cache read failed', err);
+    return undefined;
+  }
+};
+
+// Duyệt từ mục mới dùng nhất; vượt số lượng, dung lượng hoặc đã hết hạn thì xóa (LRU)
+const evict = (store: IDBObjectStore, now: number) => new Promise<void>((resolve, reject) => {
+  let entries = 0;
+  let bytes = 0;
+  const request = store.index('accessed_at').openCursor(null, 'prev');
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return resolve();
+    const entry: CacheEntry = cursor.value;
+    entries++;
+    bytes += entry.size;
+    if (entries > MAX_ENTRIES || bytes > MAX_BYTES || isExpired(entry, now)) cursor.delete();
+    cursor.continue();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+export const putCachedLookup = async (kind: LookupKind, providerId: string, normalized: string, value: unknown) => {
+  const now = Date.now();
+  const entry: CacheEntry = { value, size: JSON.stringify(value).length, created_at: now, accessed_at: now };
+  try {
+    await runTransaction(['lookup_cache'], 'readwrite', async tx => {
+      const store = tx.objectStore('lookup_cache');
+      store.put(entry, cacheKey(kind, providerId, normalized));
+      await evict(store, now);
+    });
+  } catch (err) {
+    console.warn('Lookup cache write failed', err);
+  }
+};
+
+export const getLookupCacheStats = () =>
+  runTransaction(['lookup_cache'], 'readonly', async tx => {
+    const entries = await requestToPromise<CacheEntry[]>(tx.objectStore('lookup_cache').getAll());
+    return entries.reduce<LookupCacheStats>((stats, entry) => ({ entries: stats.entries + 1, bytes: stats.bytes + entry.size }), { entries: 0, bytes: 0 });
+  });
+
+export const clearLookupCache = () =>
+  runTransaction(['lookup_cache'], 'readwrite', tx => { tx.objectStore('lookup_cache').clear(); });
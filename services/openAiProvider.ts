@@ -0,0 +1,56 @@
+import { createJsonProvider, toJsonSchema } from "./aiProvider";
+import { AiError, errorForStatus } from "./aiErrors";
+
+export interface OpenAiConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+const CONFIG_KEY = 'openai_config';
+
+// Mặc định trỏ tới máy chủ LLM chạy trên máy (LM Studio, llama.cpp, Ollama...)
+const DEFAULT_CONFIG: OpenAiConfig = { baseUrl: 'http://localhost:1234/v1', model: 'local-model', apiKey: '' };
+
+export const getOpenAiConfig = (): OpenAiConfig => {
+  try {
+    return { ...DEFAULT_CONFIG, ...JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const setOpenAiConfig = (config: OpenAiConfig) => localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+
+// Định dạng input_audio của OpenAI chỉ nhận tên định dạng ngắn ("wav", "mp3"...)
+const audioFormat = (mimeType: string) => mimeType.split('/')[1]?.split(';')[0] || 'wav';
+
+export const openAiProvider = createJsonProvider('openai', 'OpenAI-compatible', async (request, signal) => {
+  const { baseUrl, model, apiKey } = getOpenAiConfig();
+  const userContent = request.audio
+    ? [
+        { type: 'text', text: request.prompt },
+        { type: 'input_audio', input_audio: { data: request.audio.data, format: audioFormat(request.audio.mimeType) } },
+      ]
+    : request.prompt;
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+    body: JSON.stringify({
+      model,
+      temperature: request.temperature ?? 0,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: userContent },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: request.name, schema: toJsonSchema(request.schema) } },
+    }),
+  });
+  if (!response.ok) throw errorForStatus(response.status, `OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+  const body = await response.json();
+  const choice = body?.choices?.[0];
+  if (choice?.finish_reason === 'content_filter') throw new AiError('blocked', 'The endpoint filtered the response');
+  return choice?.message?.content ?? '';
+}, { maxRequests: 5, intervalMs: 5000 });
@@ -0,0 +1,40 @@
+import { AiProvider, AiCallOptions } from "./aiProvider";
+import { AiError, AiErrorKind, errorForStatus } from "./aiErrors";
+
+const URL_KEY = 'ai_proxy_url';
+
+// Mặc định lấy từ AI_PROXY_URL lúc build, người dùng có thể đổi trong phần cài đặt
+export const getProxyUrl = () => localStorage.getItem(URL_KEY) || process.env.AI_PROXY_URL || 'http://localhost:8788';
+
+export const setProxyUrl = (url: string) => localStorage.setItem(URL_KEY, url);
+
+const ERROR_KINDS: AiErrorKind[] = ['auth', 'quota', 'network', 'blocked', 'invalid_output', 'unknown'];
+
+// Proxy trả về {text} là chuỗi JSON thô của model, hoặc {error: {kind, message}}
+const callProxy = async (route: string, payload: Record<string, unknown>, options?: AiCallOptions) => {
+  const response = await fetch(`${getProxyUrl().replace(/\/+$/, '')}/api/${route}`, {
+    method: 'POST',
+    signal: options?.signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...payload, repair: options?.repair }),
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const kind = body?.error?.kind;
+    const message = body?.error?.message || `AI proxy returned ${response.status}`;
+    throw ERROR_KINDS.includes(kind) ? new AiError(kind, message, response.status) : errorForStatus(response.status, message);
+  }
+  return typeof body?.text === 'string' ? body.text : '';
+};
+
+// Proxy tự giới hạn theo từng client nên phía trình duyệt không cần rateLimit
+export const proxyProvider: AiProvider = {
+  id: 'proxy',
+  label: 'Máy chủ proxy',
+  lookupWord: (normalized, options) => callProxy('lookup', { input: normalized }, options),
+  lookupWordInContext: (word, sentence, options) => callProxy('context', { input: word, sentence }, options),
+  lookupSentence: (normalized, options) => callProxy('sentence', { input: normalized }, options),
+  evaluateSentence: (targetWord, userSentence, options) => callProxy('evaluate', { targetWord, sentence: userSentence }, options),
+  checkPronunciation: (target, base64Audio, mimeType, options) => callProxy('pronunciation', { target, audio: base64Audio, mimeType }, options),
+  regenerateField: (request, options) => callProxy('field', { ...request }, options),
+};
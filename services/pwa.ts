@@ -0,0 +1,41 @@
+import { useSyncExternalStore } from 'react';
+
+// Chỉ đăng ký khi build: ở chế độ dev sw.js không tồn tại và cache sẽ che mất thay đổi
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      // Lần cài đầu clients.claim() cũng gây controllerchange; khi đó không tải lại giữa lúc người dùng đang dùng
+      const hadController = !!navigator.serviceWorker.controller;
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          // Đã có bản cũ điều khiển trang nghĩa là đây là bản cập nhật, không phải lần cài đầu
+          if (worker.state !== 'installed' || !navigator.serviceWorker.controller) return;
+          if (confirm('Đã có phiên bản mới của FlashVocab. Tải lại ngay?')) worker.postMessage('skipWaiting');
+        });
+      });
+      let reloading = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (reloading || !hadController) return;
+        reloading = true;
+        window.location.reload();
+      });
+    } catch (err) {
+      console.error('Service worker registration failed', err);
+    }
+  });
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+// Các tính năng cần AI (chấm phát âm, chấm câu) dùng để tự tắt khi mất mạng
+export const useOnlineStatus = () => useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
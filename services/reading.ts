@@ -0,0 +1,139 @@
+import { WordData } from "../types";
+import { lemmaCandidates } from "./duplicates";
+
+// Từ đạt cấp này coi như đã thuộc
+export const MASTERED_LEVEL = 4;
+
+// common: từ chức năng quá phổ biến, không tô màu và không đưa vào danh sách từ mới
+export type WordStatus = 'unknown' | 'learning' | 'mastered' | 'common';
+
+export interface ReadingToken {
+  text: string;
+  // Dạng viết thường để tra và so với thư viện; không có nghĩa là dấu câu / khoảng trắng
+  word?: string;
+  sentence: number;
+}
+
+export interface ReadingDoc {
+  paragraphs: ReadingToken[][];
+  sentences: string[];
+}
+
+const STOP_WORDS = new Set(`a an the and or but nor so yet if then than as at by for from in into of off on onto out over to up with
+  about above after before below between down during through under until upon without within
+  i me my mine we us our ours you your yours he him his she her hers it its they them their theirs this that these those
+  who whom whose which what when where why how all any both each every few more most other some such no not only own same
+  too very can could may might must shall should will would am is are was were be been being have has had having do does did
+  just also there here now ok oh yes let go get got make made say said see come take know think want like sure well really`.split(/\s+/));
+
+// Dạng rút gọn sau khi bỏ n't: can't -> ca, won't -> wo
+const NEGATIVE_STEMS: Record<string, string> = { ca: 'can', wo: 'will', sha: 'shall', ai: 'be' };
+
+// Chữ viết tắt hay gặp: dấu chấm sau chúng không kết thúc câu
+const ABBREVIATIONS = new Set('mr mrs ms dr prof sr jr st vs etc inc ltd co corp dept fig approx no'.split(' '));
+
+// Dấu kết câu (kèm nháy / ngoặc đóng) theo sau là khoảng trắng rồi chữ hoa, hoặc là hết văn bản
+const SENTENCE_END = /[.!?]+["'”’)\]]*(?=\s+["'“‘(]*[A-Z]|\s*$)/g;
+const WORD_PATTERN = /([A-Za-z]+(?:['’][A-Za-z]+)*(?:-[A-Za-z]+)*)/;
+
+// Chữ thường, bỏ sở hữu cách và đuôi rút gọn để "teacher's" là "teacher", "I'm" là "i", "can't" là "can"
+export const normalizeWord = (word: string) => {
+  const w = word.toLowerCase().replace(/’/g, "'");
+  if (/n't$/.test(w)) {
+    const stem = w.slice(0, -3);
+    return NEGATIVE_STEMS[stem] || stem;
+  }
+  return w.replace(/'(s|m|re|ve|ll|d)$/, '');
+};
+
+// Tách câu giữ nguyên mọi ký tự (nối lại đúng bằng văn bản gốc). Dấu chấm sau một chữ cái (U.S.), sau số
+// hay sau chữ viết tắt (Mr.) không kết thúc câu, trừ khi đã hết văn bản.
+export const splitSentences = (text: string) => {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    const rest = text.slice(end);
+    const before = text.slice(start, match.index).match(/[A-Za-z0-9]+$/)?.[0] || '';
+    if (rest.trim() && match[0][0] === '.' && (before.length === 1 || /\d$/.test(before) || ABBREVIATIONS.has(before.toLowerCase()))) continue;
+    const next = end + rest.length - rest.trimStart().length;
+    sentences.push(text.slice(start, next));
+    start = next;
+  }
+  if (start < text.length) sentences.push(text.slice(start));
+  return sentences;
+};
+
+// Mỗi dòng là một đoạn; mỗi token nhớ mình thuộc câu nào để lấy câu đó làm ví dụ
+export const tokenizeText = (text: string): ReadingDoc => {
+  const sentences: string[] = [];
+  const paragraphs = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => {
+    const tokens: ReadingToken[] = [];
+    splitSentences(line).forEach(sentenceText => {
+      const sentence = sentences.push(sentenceText.trim()) - 1;
+      sentenceText.split(WORD_PATTERN).forEach((part, i) => {
+        if (!part) return;
+        tokens.push(i % 2 === 1 ? { text: part, word: normalizeWord(part), sentence } : { text: part, sentence });
+      });
+    });
+    return tokens;
+  });
+  return { paragraphs, sentences };
+};
+
+// Câu chứa ký tự ở vị trí `offset`, dùng làm ngữ cảnh khi bấm tra một từ trong đoạn văn
+export const sentenceAt = (text: string, offset: number) => {
+  let end = 0;
+  for (const sentence of splitSentences(text)) {
+    end += sentence.length;
+    if (offset < end) return sentence.trim();
+  }
+  return text.trim();
+};
+
+// Dạng gốc -> cấp SRS cao nhất trong thư viện; cụm nhiều từ không so được từng token nên bỏ qua
+export const buildLevelIndex = (words: WordData[]) => {
+  const index = new Map<string, number>();
+  words.forEach(item => {
+    const level = item.srs_level || 0;
+    lemmaCandidates(item.word).forEach(candidate => index.set(candidate, Math.max(level, index.get(candidate) ?? 0)));
+  });
+  return index;
+};
+
+export const wordStatus = (word: string, index: Map<string, number>): WordStatus => {
+  if (STOP_WORDS.has(word) || word.length < 2) return 'common';
+  let level: number | undefined;
+  lemmaCandidates(word).forEach(candidate => {
+    const found = index.get(candidate);
+    if (found !== undefined) level = Math.max(found, level ?? 0);
+  });
+  if (level === undefined) return 'unknown';
+  return level >= MASTERED_LEVEL ? 'mastered' : 'learning';
+};
+
+export interface UnknownWord {
+  word: string;
+  // Câu đầu tiên chứa từ: ngữ cảnh khi tra và là ví dụ của thẻ khi lưu
+  sentence: string;
+  count: number;
+}
+
+// Từ mới theo thứ tự xuất hiện; các dạng của cùng một từ (run / running) chỉ tính một lần
+export const unknownWords = (doc: ReadingDoc, index: Map<string, number>): UnknownWord[] => {
+  const result: UnknownWord[] = [];
+  const byLemma = new Map<string, UnknownWord>();
+  doc.paragraphs.flat().forEach(token => {
+    if (!token.word || wordStatus(token.word, index) !== 'unknown') return;
+    const candidates = [...lemmaCandidates(token.word)];
+    const existing = candidates.map(candidate => byLemma.get(candidate)).find(Boolean);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    const entry = { word: token.word, sentence: doc.sentences[token.sentence], count: 1 };
+    candidates.forEach(candidate => byLemma.set(candidate, entry));
+    result.push(entry);
+  });
+  return result;
+};
@@ -0,0 +1,101 @@
+export const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+// Bọc một promise để người gọi ngừng chờ khi signal bị hủy (promise gốc vẫn chạy tiếp)
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+export interface RateLimit {
+  maxRequests: number;
+  intervalMs: number;
+}
+
+// Cửa sổ trượt: tối đa `maxRequests` lượt trong mỗi `intervalMs`; lượt thừa xếp hàng chờ
+export const createRateLimiter = ({ maxRequests, intervalMs }: RateLimit) => {
+  const sent: number[] = [];
+  return async (signal?: AbortSignal) => {
+    for (;;) {
+      throwIfAborted(signal);
+      const now = Date.now();
+      while (sent.length && sent[0] <= now - intervalMs) sent.shift();
+      if (sent.length < maxRequests) {
+        sent.push(now);
+        return;
+      }
+      await sleep(sent[0] + intervalMs - now, signal);
+    }
+  };
+};
+
+interface InFlight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Gộp các yêu cầu giống nhau đang chạy thành một; chỉ hủy yêu cầu thật khi mọi người chờ đều đã hủy
+export const createCoalescer = <T>() => {
+  const inFlight = new Map<string, InFlight<T>>();
+
+  return (key: string, start: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    throwIfAborted(signal);
+    let entry = inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlight<T> = { controller, waiters: 0, promise: start(controller.signal) };
+      // catch để không báo unhandled rejection khi mọi người chờ đã bỏ đi
+      created.promise.finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      }).catch(() => {});
+      inFlight.set(key, created);
+      entry = created;
+    }
+
+    const current = entry;
+    current.waiters++;
+    const onAbort = () => {
+      if (--current.waiters === 0) {
+        current.controller.abort();
+        inFlight.delete(key);
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    return abortable(current.promise, signal).finally(() => {
+      if (!signal?.aborted) current.waiters--;
+      signal?.removeEventListener('abort', onAbort);
+    });
+  };
+};
+
+// Chạy `worker` cho từng phần tử, tối đa `limit` việc cùng lúc; hủy thì không bắt đầu việc mới
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      throwIfAborted(signal);
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+};
@@ -0,0 +1,31 @@
+import { ReviewLogEntry } from "../types";
+import { runTransaction, requestToPromise } from "./storage";
+
+export interface ReviewQuery {
+  cardId?: string;
+  mode?: ReviewLogEntry['mode'];
+  from?: number;
+  to?: number;
+}
+
+export const appendReview = (entry: ReviewLogEntry) =>
+  runTransaction(['reviews'], 'readwrite', tx => { tx.objectStore('reviews').add(entry); });
+
+export const queryReviews = (query: ReviewQuery = {}): Promise<ReviewLogEntry[]> =>
+  runTransaction(['reviews'], 'readonly', async tx => {
+    const store = tx.objectStore('reviews');
+    // Dùng index phù hợp nhất, phần điều kiện còn lại lọc trong bộ nhớ
+    const request = query.cardId !== undefined
+      ? store.index('card_id').getAll(query.cardId)
+      : (query.from !== undefined || query.to !== undefined)
+        ? store.index('timestamp').getAll(IDBKeyRange.bound(query.from ?? 0, query.to ?? Number.MAX_SAFE_INTEGER, false, true))
+        : store.getAll();
+    const entries = await requestToPromise<ReviewLogEntry[]>(request);
+    return entries.filter(entry =>
+      (query.mode === undefined || entry.mode === query.mode) &&
+      (query.from === undefined || entry.timestamp >= query.from) &&
+      (query.to === undefined || entry.timestamp < query.to)
+    );
+  });
+
+export const getReviewLog = () => queryReviews();
@@ -0,0 +1,143 @@
+import { SrsState } from "../types";
+
+export type Rating = 'fail' | 'hard' | 'good' | 'easy';
+export type SchedulerId = 'sm2' | 'fsrs';
+
+export interface Scheduler {
+  id: SchedulerId;
+  label: string;
+  schedule: (card: SrsState, rating: Rating, now?: number) => SrsState;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Thang cũ, vẫn dùng để quy đổi khoảng cách ôn ra srs_level cho các bucket hiển thị
+export const SRS_INTERVALS = [1, 3, 7, 14, 30, 90, 180];
+
+export const levelForInterval = (days: number) => {
+  let level = 0;
+  SRS_INTERVALS.forEach((step, i) => { if (days >= step) level = i; });
+  return level;
+};
+
+const withInterval = (state: SrsState, intervalDays: number, now: number): SrsState => {
+  const days = Math.max(1, Math.round(intervalDays));
+  return {
+    ...state,
+    interval_days: days,
+    srs_level: levelForInterval(days),
+    last_review: now,
+    next_review: now + days * DAY_MS,
+  };
+};
+
+const SM2_QUALITY: Record<Rating, number> = { fail: 1, hard: 3, good: 4, easy: 5 };
+
+const sm2: Scheduler = {
+  id: 'sm2',
+  label: 'SM-2',
+  schedule: (card, rating, now = Date.now()) => {
+    const q = SM2_QUALITY[rating];
+    const ease = card.ease_factor ?? 2.5;
+    const reps = card.repetitions ?? 0;
+    const prevInterval = card.interval_days ?? 0;
+    const nextEase = Math.max(1.3, ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+    if (q < 3) {
+      return withInterval({ ...card, ease_factor: nextEase, repetitions: 0, lapses: (card.lapses ?? 0) + 1 }, 1, now);
+    }
+
+    let interval: number;
+    if (reps === 0) interval = rating === 'easy' ? 3 : 1;
+    else if (reps === 1) interval = rating === 'hard' ? 3 : 6;
+    else if (rating === 'hard') interval = Math.max(prevInterval + 1, prevInterval * 1.2);
+    else interval = prevInterval * nextEase * (rating === 'easy' ? 1.3 : 1);
+
+    return withInterval({ ...card, ease_factor: nextEase, repetitions: reps + 1 }, interval, now);
+  },
+};
+
+// Trọng số mặc định của FSRS-4.5
+const FSRS_W = [0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const FSRS_RETENTION = 0.9;
+const FSRS_GRADE: Record<Rating, number> = { fail: 1, hard: 2, good: 3, easy: 4 };
+
+const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+const initialDifficulty = (grade: number) => clampDifficulty(FSRS_W[4] - (grade - 3) * FSRS_W[5]);
+const retrievability = (elapsedDays: number, stability: number) => Math.pow(1 + FSRS_FACTOR * elapsedDays / stability, FSRS_DECAY);
+const fsrsInterval = (stability: number) => stability / FSRS_FACTOR * (Math.pow(FSRS_RETENTION, 1 / FSRS_DECAY) - 1);
+
+const fsrs: Scheduler = {
+  id: 'fsrs',
+  label: 'FSRS',
+  schedule: (card, rating, now = Date.now()) => {
+    const grade = FSRS_GRADE[rating];
+
+    if (card.stability === undefined || card.difficulty === undefined) {
+      const stability = FSRS_W[grade - 1];
+      return withInterval({
+        ...card,
+        stability,
+        difficulty: initialDifficulty(grade),
+        repetitions: 1,
+        lapses: (card.lapses ?? 0) + (rating === 'fail' ? 1 : 0),
+      }, fsrsInterval(stability), now);
+    }
+
+    const elapsedDays = card.last_review ? Math.max(0, (now - card.last_review) / DAY_MS) : (card.interval_days ?? 0);
+    const r = retrievability(elapsedDays, card.stability);
+    const nextDifficulty = clampDifficulty(
+      FSRS_W[7] * initialDifficulty(3) + (1 - FSRS_W[7]) * (card.difficulty - FSRS_W[6] * (grade - 3))
+    );
+
+    let stability: number;
+    if (rating === 'fail') {
+      stability = FSRS_W[11] * Math.pow(card.difficulty, -FSRS_W[12]) * (Math.pow(card.stability + 1, FSRS_W[13]) - 1) * Math.exp(FSRS_W[14] * (1 - r));
+    } else {
+      const hardPenalty = rating === 'hard' ? FSRS_W[15] : 1;
+      const easyBonus = rating === 'easy' ? FSRS_W[16] : 1;
+      stability = card.stability * (Math.exp(FSRS_W[8]) * (11 - card.difficulty) * Math.pow(card.stability, -FSRS_W[9]) * (Math.exp(FSRS_W[10] * (1 - r)) - 1) * hardPenalty * easyBonus + 1);
+    }
+
+    return withInterval({
+      ...card,
+      stability,
+      difficulty: nextDifficulty,
+      repetitions: rating === 'fail' ? 0 : (card.repetitions ?? 0) + 1,
+      lapses: (card.lapses ?? 0) + (rating === 'fail' ? 1 : 0),
+    }, fsrsInterval(stability), now);
+  },
+};
+
+export const SCHEDULERS: Record<SchedulerId, Scheduler> = { sm2, fsrs };
+
+const SCHEDULER_KEY = 'srs_scheduler';
+
+export const getSchedulerId = (): SchedulerId => {
+  const stored = localStorage.getItem(SCHEDULER_KEY);
+  return stored === 'fsrs' || stored === 'sm2' ? stored : 'sm2';
+};
+
+export const setSchedulerId = (id: SchedulerId) => localStorage.setItem(SCHEDULER_KEY, id);
+
+export const getScheduler = (id: SchedulerId = getSchedulerId()) => SCHEDULERS[id];
+
+// Chuyển dữ liệu chỉ có srs_level (thang cố định cũ) sang trạng thái đủ cho cả SM-2 và FSRS
+export const migrateSrsState = <T extends SrsState>(item: T): T => {
+  if (item.interval_days !== undefined || item.srs_level === undefined) return item;
+  const level = Math.min(Math.max(0, item.srs_level), SRS_INTERVALS.length - 1);
+  // Cấp 0 coi như thẻ mới, để bộ lập lịch tự khởi tạo ở lần ôn đầu
+  if (level === 0) return { ...item, interval_days: 0, repetitions: 0 };
+  const interval = SRS_INTERVALS[level];
+  return {
+    ...item,
+    interval_days: interval,
+    ease_factor: 2.5,
+    repetitions: level,
+    stability: interval,
+    difficulty: initialDifficulty(3),
+    last_review: item.next_review !== undefined ? item.next_review - interval * DAY_MS : undefined,
+  };
+};
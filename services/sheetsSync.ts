@@ -0,0 +1,228 @@
+import { WordData, SentenceData } from "../types";
+import { StudyItem } from "./studyQueue";
+import { isWordItem } from "./studyCards";
+import { getMeta, setMeta, putItems } from "./storage";
+import { SPREADSHEET_COLUMNS, ColumnMapping, rowsToItems } from "./spreadsheet";
+import { keepLocalEdits } from "./cardEditing";
+
+// Giao thức với Apps Script (xem README):
+//   POST {action:'push', items, deleted}  -> {ok, server_time}
+//   GET  ?action=pull&since=<ms>           -> {ok, items, server_time}
+// Mỗi dòng trong sheet là một SheetRow; script tự gắn id cho dòng người dùng thêm tay.
+
+export type SheetRow = Record<string, string> & { id: string; updated_at: string };
+
+export interface SheetsSyncState {
+  url: string;
+  // Mốc server_time của lần pull gần nhất
+  last_pull: number;
+  // id -> updated_at của phiên bản đã có trên sheet
+  synced: Record<string, number>;
+  last_sync?: number;
+  last_error?: string;
+}
+
+export interface SyncSummary {
+  pushed: number;
+  deleted: number;
+  pulled: number;
+  conflicts: number;
+  failed: number;
+}
+
+export class SheetsSyncError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'SheetsSyncError';
+  }
+}
+
+const stateKey = (url: string) => `sheets_sync:${url}`;
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;
+
+// Sheet chỉ dùng để sửa nội dung; lịch ôn luôn lấy theo máy
+const LOCAL_ONLY_COLUMNS = ['srs_level', 'next_review', 'created_at'];
+
+const emptyState = (url: string): SheetsSyncState => ({ url, last_pull: 0, synced: {} });
+
+export const getSyncState = async (url: string) => {
+  // Mỗi sheet có trạng thái riêng; sheet mới thì coi như chưa đồng bộ gì
+  return (await getMeta<SheetsSyncState>(stateKey(url))) ?? emptyState(url);
+};
+
+const saveSyncState = (state: SheetsSyncState) => setMeta(stateKey(state.url), state);
+
+export const toSheetRow = (item: StudyItem): SheetRow => {
+  const row: Record<string, string> = { id: item.id || '', updated_at: String(item.updated_at || '') };
+  SPREADSHEET_COLUMNS.forEach(column => { row[column.key] = column.get(item); });
+  return row as SheetRow;
+};
+
+const PULL_COLUMNS = SPREADSHEET_COLUMNS.filter(c => !LOCAL_ONLY_COLUMNS.includes(c.key));
+const PULL_MAPPING: ColumnMapping = Object.fromEntries(PULL_COLUMNS.map((c, i) => [c.key, i]));
+
+// Dòng từ sheet -> mục thư viện; trường không có trên sheet (lịch ôn...) giữ theo bản trên máy
+export const fromSheetRow = (row: SheetRow, existing?: StudyItem): StudyItem | null => {
+  const fallbackType = existing ? (isWordItem(existing) ? 'word' : 'sentence') : 'word';
+  const [parsed] = rowsToItems([PULL_COLUMNS.map(c => String(row[c.key] ?? ''))], PULL_MAPPING, fallbackType);
+  if (!parsed || !row.id) return null;
+  const updatedAt = Number(row.updated_at) || Date.now();
+  const base = existing && isWordItem(existing) === isWordItem(parsed) ? existing : { srs_level: 0, next_review: Date.now(), created_at: updatedAt };
+  return { ...base, ...parsed, id: row.id, updated_at: updatedAt } as StudyItem;
+};
+
+const isDirty = (state: SheetsSyncState, item: StudyItem) => state.synced[item.id!] !== (item.updated_at || 0);
+
+export const pendingChanges = (state: SheetsSyncState, items: StudyItem[]) => {
+  const ids = new Set(items.map(item => item.id));
+  return {
+    dirty: items.filter(item => item.id && isDirty(state, item)),
+    deleted: Object.keys(state.synced).filter(id => !ids.has(id)),
+  };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Thử lại với thời gian chờ tăng dần; lỗi 4xx là lỗi cấu hình nên không thử lại
+const withRetry = async <T>(request: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      const status = err instanceof SheetsSyncError ? err.status : undefined;
+      if (attempt >= MAX_ATTEMPTS || (status && status >= 400 && status < 500)) throw err;
+      await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Phản hồi sai dạng báo thành lỗi đồng bộ ngay tại đây, không để rơi thành TypeError ở chỗ khác
+const readResponse = async (response: Response) => {
+  if (!response.ok) throw new SheetsSyncError(`Google Sheets trả về lỗi ${response.status}`, response.status);
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (e) {
+    throw new SheetsSyncError('Phản hồi từ Google Sheets không phải JSON. Hãy kiểm tra lại Apps Script.');
+  }
+  if (!isRecord(body)) throw new SheetsSyncError('Phản hồi từ Google Sheets sai định dạng. Hãy kiểm tra lại Apps Script.');
+  if (body.ok !== true) throw new SheetsSyncError(typeof body.error === 'string' && body.error ? body.error : 'Google Sheets từ chối yêu cầu.');
+  return body;
+};
+
+// Ô trong sheet có thể là số hoặc ngày; mọi giá trị đều đưa về chuỗi như lúc ghi
+const toPulledRow = (value: unknown): SheetRow => {
+  if (!isRecord(value)) throw new SheetsSyncError('Dòng dữ liệu từ Google Sheets sai định dạng. Hãy kiểm tra lại Apps Script.');
+  return Object.fromEntries(Object.entries(value).map(([key, cell]) => [key, cell == null ? '' : String(cell)])) as SheetRow;
+};
+
+// text/plain để trình duyệt không gửi preflight (Apps Script không trả lời OPTIONS)
+const postBatch = (url: string, items: SheetRow[], deleted: string[]) =>
+  withRetry(async () => readResponse(await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+    body: JSON.stringify({ action: 'push', items, deleted }),
+  })));
+
+const pullRows = async (url: string, since: number): Promise<{ items: SheetRow[]; server_time: number }> => {
+  const pullUrl = new URL(url);
+  pullUrl.searchParams.set('action', 'pull');
+  pullUrl.searchParams.set('since', String(since));
+  const body = await withRetry(async () => readResponse(await fetch(pullUrl.toString())));
+  if (!Array.isArray(body.items)) throw new SheetsSyncError('Phản hồi từ Google Sheets thiếu danh sách dòng. Hãy kiểm tra lại Apps Script.');
+  return { items: body.items.map(toPulledRow), server_time: Number(body.server_time) || Date.now() };
+};
+
+const describeError = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+// Gửi theo lô; lô lỗi giữ nguyên trạng thái "chưa đồng bộ" để lần sau gửi lại
+const pushChanges = async (url: string, state: SheetsSyncState, dirty: StudyItem[], deleted: string[]) => {
+  let pushed = 0;
+  let removed = 0;
+  let failed = 0;
+  let lastError: string | undefined;
+  const batches: { items: StudyItem[]; deleted: string[] }[] = [];
+  for (let i = 0; i < dirty.length; i += BATCH_SIZE) batches.push({ items: dirty.slice(i, i + BATCH_SIZE), deleted: [] });
+  if (deleted.length) {
+    if (batches.length) batches[0].deleted = deleted;
+    else batches.push({ items: [], deleted });
+  }
+
+  for (const batch of batches) {
+    try {
+      await postBatch(url, batch.items.map(toSheetRow), batch.deleted);
+      batch.items.forEach(item => { state.synced[item.id!] = item.updated_at || 0; });
+      batch.deleted.forEach(id => { delete state.synced[id]; });
+      pushed += batch.items.length;
+      removed += batch.deleted.length;
+    } catch (err) {
+      console.error(err);
+      failed += batch.items.length + batch.deleted.length;
+      lastError = describeError(err);
+    }
+  }
+  return { pushed, removed, failed, lastError };
+};
+
+// Đẩy ngay một vài mục (nút đồng bộ trên từng thẻ)
+export const pushItems = async (url: string, items: StudyItem[]) => {
+  const state = await getSyncState(url);
+  const result = await pushChanges(url, state, items.filter(item => item.id), []);
+  await saveSyncState({ ...state, last_error: result.lastError });
+  if (result.lastError) throw new SheetsSyncError(result.lastError);
+  return result.pushed;
+};
+
+// Pull trước, giải quyết xung đột, lưu vào thư viện rồi mới push phần thay đổi trên máy.
+// Xung đột (cả hai bên cùng sửa từ lần đồng bộ trước) thì bản có updated_at mới hơn thắng,
+// riêng các trường người dùng tự sửa trên máy mà chưa kịp đẩy lên thì vẫn giữ bản trên máy.
+export const syncWithSheets = async (url: string, words: WordData[], sentences: SentenceData[]): Promise<SyncSummary> => {
+  const state = await getSyncState(url);
+  const local = new Map<string, StudyItem>([...words, ...sentences].map(item => [item.id!, item]));
+  const summary: SyncSummary = { pushed: 0, deleted: 0, pulled: 0, conflicts: 0, failed: 0 };
+
+  let remote: Awaited<ReturnType<typeof pullRows>>;
+  try {
+    remote = await pullRows(url, state.last_pull);
+  } catch (err) {
+    await saveSyncState({ ...state, last_error: describeError(err) });
+    throw err;
+  }
+
+  const changed: StudyItem[] = [];
+  remote.items.forEach(row => {
+    const existing = local.get(row.id);
+    // Có trong lịch sử đồng bộ mà không còn trên máy: đã xóa ở máy, lần push này sẽ xóa trên sheet
+    if (!existing && row.id in state.synced) return;
+    const incoming = fromSheetRow(row, existing);
+    if (!incoming) return;
+    let merged = incoming;
+    if (existing) {
+      if ((incoming.updated_at || 0) <= (existing.updated_at || 0)) return;
+      if (isDirty(state, existing)) {
+        summary.conflicts++;
+        merged = keepLocalEdits(incoming, existing, state.synced[existing.id!] || 0);
+      }
+    }
+    local.set(merged.id!, merged);
+    // Ghi nhận phiên bản đang có trên sheet; bản gộp mới hơn nên sẽ được đẩy lên ở bước sau
+    state.synced[incoming.id!] = incoming.updated_at || 0;
+    changed.push(merged);
+  });
+  if (changed.length) await putItems(changed);
+  summary.pulled = changed.length;
+  state.last_pull = remote.server_time;
+
+  const { dirty, deleted } = pendingChanges(state, Array.from(local.values()));
+  const result = await pushChanges(url, state, dirty, deleted);
+  summary.pushed = result.pushed;
+  summary.failed = result.failed;
+  summary.deleted = result.removed;
+
+  await saveSyncState({ ...state, last_sync: Date.now(), last_error: result.lastError });
+  return summary;
+};
@@ -0,0 +1,232 @@
+import { WordData, SentenceData } from "../types";
+import { StudyItem } from "./studyQueue";
+import { isWordItem } from "./studyCards";
+import { normalizeDeck, normalizeTags } from "./library";
+
+export type Delimiter = ',' | '\t';
+
+const ARRAY_SEPARATOR = '; ';
+const PAIR_SEPARATOR = ' => ';
+
+// Chuẩn RFC 4180: bọc ngoặc kép khi có dấu phân cách, ngoặc kép hoặc xuống dòng; ngoặc kép bên trong nhân đôi
+const escapeCell = (value: string, delimiter: Delimiter) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatDelimited = (rows: string[][], delimiter: Delimiter) =>
+  rows.map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+export const detectDelimiter = (text: string): Delimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  return firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+};
+
+export const parseDelimited = (input: string, delimiter: Delimiter = detectDelimiter(input)): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const splitList = (value: string) => value.split(/;\s*|\n/).map(v => v.trim()).filter(Boolean);
+
+const formatDate = (time?: number) => time ? new Date(time).toISOString() : '';
+const parseDate = (value: string) => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export interface SpreadsheetColumn {
+  key: string;
+  label: string;
+  appliesTo: 'word' | 'sentence' | 'both';
+  get: (item: StudyItem) => string;
+  // Ô luôn là chuỗi; mỗi cột tự chuyển sang đúng kiểu của trường (chuỗi, danh sách, số)
+  set?: (target: Record<string, unknown>, value: string) => void;
+}
+
+const fieldOf = (item: StudyItem, key: string): unknown => (item as unknown as Record<string, unknown>)[key];
+
+const text = (key: string, label: string, appliesTo: SpreadsheetColumn['appliesTo']): SpreadsheetColumn => ({
+  key, label, appliesTo,
+  get: item => String(fieldOf(item, key) ?? ''),
+  set: (target, value) => { target[key] = value; },
+});
+
+const list = (key: keyof WordData, label: string): SpreadsheetColumn => ({
+  key, label, appliesTo: 'word',
+  get: item => {
+    const value = fieldOf(item, key);
+    return Array.isArray(value) ? value.map(String).join(ARRAY_SEPARATOR) : '';
+  },
+  set: (target, value) => { target[key] = splitList(value); },
+});
+
+export const SPREADSHEET_COLUMNS: SpreadsheetColumn[] = [
+  { key: 'type', label: 'Type', appliesTo: 'both', get: item => isWordItem(item) ? 'Word' : 'Sentence' },
+  {
+    key: 'text', label: 'Word/Sentence', appliesTo: 'both',
+    get: item => isWordItem(item) ? item.word : (item as SentenceData).sentence,
+    set: (target, value) => { target.text = value; },
+  },
+  text('ipa', 'IPA', 'word'),
+  text('part_of_speech', 'Part of Speech', 'word'),
+  text('meaning_vi', 'Meaning (VI)', 'both'),
+  text('definition_en', 'Definition (EN)', 'word'),
+  text('syllables', 'Syllables', 'word'),
+  text('spelling_tip', 'Spelling Tip', 'word'),
+  text('example_en', 'Example (EN)', 'word'),
+  text('example_vi', 'Example (VI)', 'word'),
+  text('example_b2_en', 'Example B2 (EN)', 'word'),
+  text('example_b2_vi', 'Example B2 (VI)', 'word'),
+  text('root_word', 'Root Word', 'word'),
+  text('mnemonic', 'Mnemonic', 'word'),
+  list('synonyms', 'Synonyms'),
+  list('antonyms', 'Antonyms'),
+  list('word_family', 'Word Family'),
+  list('collocations', 'Collocations'),
+  text('grammar_breakdown', 'Grammar', 'sentence'),
+  text('usage_context', 'Usage Context', 'sentence'),
+  {
+    key: 'naturalness_score', label: 'Naturalness', appliesTo: 'sentence',
+    get: item => 'naturalness_score' in item ? String(item.naturalness_score ?? '') : '',
+    set: (target, value) => { const n = Number(value); if (value && !Number.isNaN(n)) target.naturalness_score = n; },
+  },
+  {
+    key: 'similar_sentences', label: 'Similar Sentences', appliesTo: 'sentence',
+    get: item => 'similar_sentences' in item ? (item.similar_sentences || []).map(s => `${s.en}${PAIR_SEPARATOR}${s.vi}`).join(ARRAY_SEPARATOR) : '',
+    set: (target, value) => {
+      target.similar_sentences = splitList(value).map(pair => {
+        const [en, vi = ''] = pair.split(PAIR_SEPARATOR);
+        return { en: en.trim(), vi: vi.trim() };
+      });
+    },
+  },
+  {
+    key: 'deck', label: 'Deck', appliesTo: 'both',
+    get: item => item.deck || '',
+    set: (target, value) => { target.deck = normalizeDeck(value); },
+  },
+  {
+    key: 'tags', label: 'Tags', appliesTo: 'both',
+    get: item => (item.tags || []).join(ARRAY_SEPARATOR),
+    set: (target, value) => { target.tags = normalizeTags(splitList(value)); },
+  },
+  text('notes', 'Notes', 'both'),
+  {
+    key: 'srs_level', label: 'SRS Level', appliesTo: 'both',
+    get: item => String(item.srs_level ?? ''),
+    set: (target, value) => { const n = parseInt(value, 10); if (!Number.isNaN(n)) target.srs_level = n; },
+  },
+  {
+    key: 'next_review', label: 'Next Review', appliesTo: 'both',
+    get: item => formatDate(item.next_review),
+    set: (target, value) => { const time = parseDate(value); if (time !== undefined) target.next_review = time; },
+  },
+  {
+    key: 'created_at', label: 'Date Added', appliesTo: 'both',
+    get: item => formatDate(item.created_at),
+    set: (target, value) => { const time = parseDate(value); if (time !== undefined) target.created_at = time; },
+  },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = ['type', 'text', 'ipa', 'part_of_speech', 'definition_en', 'meaning_vi', 'example_en', 'example_vi'];
+
+export const buildSpreadsheet = (items: StudyItem[], columnKeys: string[], delimiter: Delimiter) => {
+  const columns = SPREADSHEET_COLUMNS.filter(c => columnKeys.includes(c.key));
+  return formatDelimited([columns.map(c => c.label), ...items.map(item => columns.map(c => c.get(item)))], delimiter);
+};
+
+// Cột nào trong file ứng với trường nào: key của SPREADSHEET_COLUMNS -> chỉ số cột (hoặc null)
+export type ColumnMapping = Record<string, number | null>;
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  SPREADSHEET_COLUMNS.forEach(column => {
+    const candidates = [normalizeHeader(column.label), normalizeHeader(column.key)];
+    const index = normalized.findIndex(h => candidates.includes(h));
+    mapping[column.key] = index >= 0 ? index : null;
+  });
+  if (mapping.text === null) {
+    const index = normalized.findIndex(h => h === 'word' || h === 'sentence' || h === 'front');
+    mapping.text = index >= 0 ? index : (header.length ? 0 : null);
+  }
+  return mapping;
+};
+
+const EMPTY_WORD: WordData = {
+  word: '', meaning_vi: '', definition_en: '', ipa: '', syllables: '', spelling_tip: '', part_of_speech: '',
+  example_en: '', example_vi: '', example_b2_en: '', example_b2_vi: '', root_word: '', mnemonic: '',
+  synonyms: [], antonyms: [], word_family: [], collocations: [],
+};
+
+const EMPTY_SENTENCE: SentenceData = {
+  sentence: '', meaning_vi: '', grammar_breakdown: '', usage_context: '', naturalness_score: 0, similar_sentences: [],
+};
+
+// Dòng có cột Type thì theo cột đó, không thì theo `fallbackType`
+export const rowsToItems = (rows: string[][], mapping: ColumnMapping, fallbackType: 'word' | 'sentence'): StudyItem[] =>
+  rows.flatMap((row): StudyItem[] => {
+    const value = (key: string) => {
+      const index = mapping[key];
+      return index === null || index === undefined ? '' : (row[index] || '').trim();
+    };
+    const textValue = value('text');
+    if (!textValue) return [];
+    const typeValue = value('type').toLowerCase();
+    const type = typeValue.startsWith('sen') ? 'sentence' : typeValue.startsWith('word') ? 'word' : fallbackType;
+
+    const fields: Record<string, unknown> = {};
+    SPREADSHEET_COLUMNS.forEach(column => {
+      if (!column.set || column.key === 'text' || (column.appliesTo !== 'both' && column.appliesTo !== type)) return;
+      const cell = value(column.key);
+      if (cell) column.set(fields, cell);
+    });
+    return type === 'word'
+      ? [{ ...EMPTY_WORD, ...fields, word: textValue } as WordData]
+      : [{ ...EMPTY_SENTENCE, ...fields, sentence: textValue } as SentenceData];
+  });
+
+// Từ thiếu nghĩa hoặc định nghĩa thì đáng để tra bổ sung bằng AI
+export const needsLookup = (item: StudyItem) => isWordItem(item) && (!item.meaning_vi || !item.definition_en || !item.ipa);
+
+// Giá trị người dùng nhập luôn được ưu tiên hơn dữ liệu tra cứu
+export const fillMissing = <T extends StudyItem>(item: T, lookedUp: T): T => {
+  const result: T = { ...lookedUp };
+  (Object.keys(item) as (keyof T)[]).forEach(key => {
+    const value: unknown = item[key];
+    const isEmpty = value === '' || value === undefined || (Array.isArray(value) && value.length === 0);
+    if (!isEmpty) result[key] = item[key];
+  });
+  return result;
+};
@@ -0,0 +1,127 @@
+import { ReviewLogEntry } from "../types";
+import { StudyItem } from "./studyQueue";
+import { getCardId } from "./studyCards";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const dayKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const addDays = (time: number, days: number) => {
+  const d = new Date(time);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+export const reviewsPerDay = (log: ReviewLogEntry[]) => {
+  const counts = new Map<string, number>();
+  log.forEach(entry => {
+    const key = dayKey(entry.timestamp);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+};
+
+export interface HeatmapCell {
+  date: number;
+  count: number;
+}
+
+// Lưới theo tuần (mỗi cột là một tuần, bắt đầu từ Chủ nhật), kết thúc ở hôm nay
+export const buildHeatmap = (log: ReviewLogEntry[], weeks: number = 26, now: number = Date.now()): HeatmapCell[][] => {
+  const counts = reviewsPerDay(log);
+  const today = startOfDay(now);
+  const firstDay = addDays(today, -(weeks - 1) * 7 - new Date(today).getDay());
+  const columns: HeatmapCell[][] = [];
+  for (let w = 0; w < weeks; w++) {
+    const column: HeatmapCell[] = [];
+    for (let d = 0; d < 7; d++) {
+      const date = addDays(firstDay, w * 7 + d);
+      if (date > today) break;
+      column.push({ date, count: counts.get(dayKey(date)) || 0 });
+    }
+    columns.push(column);
+  }
+  return columns;
+};
+
+export interface RetentionStat {
+  mode: ReviewLogEntry['mode'];
+  reviews: number;
+  passed: number;
+  rate: number | null;
+}
+
+// Gõ từ và trắc nghiệm tính theo đáp án đúng/sai; flashcard và nhật ký cũ thì theo mức tự đánh giá
+const isPassed = (entry: ReviewLogEntry) =>
+  entry.mode !== 'flashcard' && entry.correct !== undefined ? entry.correct : entry.rating !== 'fail';
+
+// "True retention": chỉ tính các lần ôn thẻ đã qua ít nhất một lần học (không tính thẻ mới)
+export const retentionByMode = (log: ReviewLogEntry[]): RetentionStat[] =>
+  (['flashcard', 'typing', 'quiz'] as const).map(mode => {
+    const reviews = log.filter(e => e.mode === mode && e.prev_interval > 0);
+    const passed = reviews.filter(isPassed).length;
+    return { mode, reviews: reviews.length, passed, rate: reviews.length ? passed / reviews.length : null };
+  });
+
+// Số thẻ đến hạn mỗi ngày trong `days` ngày tới; thẻ quá hạn được dồn vào hôm nay
+export const dueForecast = (items: StudyItem[], days: number = 30, now: number = Date.now()) => {
+  const today = startOfDay(now);
+  const forecast = Array.from({ length: days }, (_, i) => ({ date: addDays(today, i), count: 0 }));
+  items.forEach(item => {
+    const due = item.next_review ?? now;
+    const index = Math.max(0, Math.floor((startOfDay(due) - today) / DAY_MS));
+    if (index < days) forecast[index].count++;
+  });
+  return forecast;
+};
+
+// Ngày thêm vào thư viện; dữ liệu rất cũ không có mốc thì lấy lần ôn đầu tiên trong nhật ký
+const addedAt = (item: StudyItem, firstReviews: Map<string, number>) =>
+  Math.min(item.created_at ?? Infinity, firstReviews.get(getCardId(item)) ?? Infinity);
+
+export const libraryGrowth = (items: StudyItem[], log: ReviewLogEntry[], weeks: number = 12, now: number = Date.now()) => {
+  const firstReviews = new Map<string, number>();
+  log.forEach(e => {
+    const prev = firstReviews.get(e.card_id);
+    if (prev === undefined || e.timestamp < prev) firstReviews.set(e.card_id, e.timestamp);
+  });
+  const dates = items.map(item => {
+    const date = addedAt(item, firstReviews);
+    return Number.isFinite(date) ? date : 0;
+  });
+  const today = startOfDay(now);
+  return Array.from({ length: weeks }, (_, i) => {
+    const end = addDays(today, -(weeks - 1 - i) * 7 + 1);
+    return { date: end - DAY_MS, total: dates.filter(d => d < end).length };
+  });
+};
+
+export const reviewStreaks = (log: ReviewLogEntry[], now: number = Date.now()) => {
+  const days = Array.from(new Set(log.map(e => startOfDay(e.timestamp)))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && startOfDay(addDays(days[i - 1], 1)) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const reviewed = new Set(days);
+  const today = startOfDay(now);
+  // Chưa ôn hôm nay thì chuỗi vẫn tính tới hôm qua
+  let cursor = reviewed.has(today) ? today : addDays(today, -1);
+  let current = 0;
+  while (reviewed.has(cursor)) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+  return { current, longest };
+};
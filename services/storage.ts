@@ -0,0 +1,249 @@
+import { WordData, SentenceData, ReviewLogEntry } from "../types";
+import { StudyItem } from "./studyQueue";
+import { isWordItem } from "./studyCards";
+import { migrateSrsState } from "./scheduler";
+import { legacyKey, withLibraryMeta, newestFirst } from "./library";
+
+const DB_NAME = 'flashvocab';
+
+export type StoreName = 'words' | 'sentences' | 'reviews' | 'meta' | 'lookup_cache';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const firstReviewByCard = (reviews: ReviewLogEntry[]) => {
+  const first = new Map<string, number>();
+  reviews.forEach(r => {
+    const prev = first.get(r.card_id);
+    if (prev === undefined || r.timestamp < prev) first.set(r.card_id, r.timestamp);
+  });
+  return first;
+};
+
+// Gắn id cho các mục cũ (khóa theo nội dung); trả về bảng đổi khóa cũ -> id để sửa nhật ký ôn tập
+const assignIds = <T extends WordData | SentenceData>(items: T[], firstReviews: Map<string, number>, idByLegacyKey: Map<string, string>) =>
+  items.map(item => {
+    const key = legacyKey(item);
+    const migrated = withLibraryMeta(migrateSrsState({ ...item, created_at: item.created_at ?? firstReviews.get(key) }));
+    idByLegacyKey.set(key, migrated.id!);
+    return migrated;
+  });
+
+// Mỗi phần tử nâng schema lên một version; chỉ được thêm vào cuối, không sửa migration cũ
+const MIGRATIONS: Migration[] = [
+  // v1: thư viện, nhật ký ôn tập và metadata
+  (db) => {
+    db.createObjectStore('words');
+    db.createObjectStore('sentences');
+    const reviews = db.createObjectStore('reviews', { autoIncrement: true });
+    reviews.createIndex('card_id', 'card_id');
+    reviews.createIndex('timestamp', 'timestamp');
+    db.createObjectStore('meta');
+  },
+  // v2: khóa theo id ổn định thay cho nội dung, thêm created_at/updated_at
+  (_db, tx) => {
+    const reviews = tx.objectStore('reviews');
+    const reviewsRequest = reviews.getAll();
+    reviewsRequest.onsuccess = () => {
+      const firstReviews = firstReviewByCard(reviewsRequest.result);
+      const idByLegacyKey = new Map<string, string>();
+      let pending = 2;
+      const rekeyReviews = () => {
+        const cursorRequest = reviews.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const id = idByLegacyKey.get(cursor.value.card_id);
+          if (id) cursor.update({ ...cursor.value, card_id: id });
+          cursor.continue();
+        };
+      };
+      (['words', 'sentences'] as const).forEach(name => {
+        const store = tx.objectStore(name);
+        const itemsRequest = store.getAll();
+        itemsRequest.onsuccess = () => {
+          store.clear();
+          assignIds(itemsRequest.result, firstReviews, idByLegacyKey).forEach(item => store.put(item, item.id));
+          if (--pending === 0) rekeyReviews();
+        };
+      });
+    };
+  },
+  // v3: bộ nhớ đệm kết quả tra cứu AI, tách khỏi thư viện (không sao lưu, không đồng bộ)
+  (db) => {
+    const cache = db.createObjectStore('lookup_cache');
+    cache.createIndex('accessed_at', 'accessed_at');
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Bộ nhớ trình duyệt đã đầy') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const toStorageError = (err: unknown) => {
+  if (err instanceof DOMException && err.name === 'QuotaExceededError') return new StorageQuotaError();
+  return err instanceof Error ? err : new Error(String(err));
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(toStorageError(request.error));
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(toStorageError(tx.error));
+  tx.onabort = () => reject(toStorageError(tx.error));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction!;
+      for (let v = event.oldVersion; v < DB_VERSION; v++) MIGRATIONS[v](request.result, tx);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Tab khác nâng version thì đóng kết nối cũ để không chặn nó
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    request.onerror = () => { dbPromise = null; reject(toStorageError(request.error)); };
+    request.onblocked = () => console.warn('IndexedDB upgrade is blocked by another open tab');
+  });
+  return dbPromise;
+};
+
+// Chạy `work` trong một transaction và chờ commit xong mới trả kết quả
+export const runTransaction = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = transactionDone(tx);
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+const storeFor = (item: StudyItem): StoreName => isWordItem(item) ? 'words' : 'sentences';
+
+// Mục ghi vào thư viện luôn phải có id (xem withLibraryMeta)
+const recordKey = (item: StudyItem) => {
+  if (!item.id) throw new Error('Library item is missing an id');
+  return item.id;
+};
+
+export const putItem = (item: StudyItem) =>
+  runTransaction([storeFor(item)], 'readwrite', tx => { tx.objectStore(storeFor(item)).put(item, recordKey(item)); });
+
+export const putItems = (items: StudyItem[]) =>
+  runTransaction(['words', 'sentences'], 'readwrite', tx => {
+    items.forEach(item => tx.objectStore(storeFor(item)).put(item, recordKey(item)));
+  });
+
+export const deleteItem = (item: StudyItem) =>
+  runTransaction([storeFor(item)], 'readwrite', tx => { tx.objectStore(storeFor(item)).delete(recordKey(item)); });
+
+export const getMeta = <T>(key: string) =>
+  runTransaction(['meta'], 'readonly', tx => requestToPromise<T | undefined>(tx.objectStore('meta').get(key)));
+
+export const setMeta = (key: string, value: unknown) =>
+  runTransaction(['meta'], 'readwrite', tx => { tx.objectStore('meta').put(value, key); });
+
+const LEGACY_KEYS = { words: 'flashcards', sentences: 'saved_sentences', reviews: 'review_log' } as const;
+
+const readLegacy = <T>(key: string): T[] | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Chuyển dữ liệu cũ từ localStorage sang IndexedDB đúng một lần.
+// Khóa nào hỏng thì giữ nguyên bản gốc dưới tên `<key>_corrupt` thay vì xóa mất.
+const importLegacyLocalStorage = async () => {
+  const words = readLegacy<WordData>(LEGACY_KEYS.words);
+  const sentences = readLegacy<SentenceData>(LEGACY_KEYS.sentences);
+  const reviews = readLegacy<ReviewLogEntry>(LEGACY_KEYS.reviews);
+
+  const firstReviews = firstReviewByCard(reviews || []);
+  const idByLegacyKey = new Map<string, string>();
+  const importedWords = assignIds(words || [], firstReviews, idByLegacyKey);
+  const importedSentences = assignIds(sentences || [], firstReviews, idByLegacyKey);
+
+  // Đọc cờ trong cùng transaction ghi dữ liệu: tab khác đang nhập cùng lúc thì transaction sau thấy cờ đã bật và dừng
+  const imported = await runTransaction(['words', 'sentences', 'reviews', 'meta'], 'readwrite', async tx => {
+    if (await requestToPromise(tx.objectStore('meta').get('legacy_imported'))) return false;
+    importedWords.forEach(w => tx.objectStore('words').put(w, w.id));
+    importedSentences.forEach(s => tx.objectStore('sentences').put(s, s.id));
+    (reviews || []).forEach(r => tx.objectStore('reviews').add({ ...r, card_id: idByLegacyKey.get(r.card_id) ?? r.card_id }));
+    tx.objectStore('meta').put(true, 'legacy_imported');
+    return true;
+  });
+  if (!imported) return;
+
+  ([[LEGACY_KEYS.words, words], [LEGACY_KEYS.sentences, sentences], [LEGACY_KEYS.reviews, reviews]] as const).forEach(([key, data]) => {
+    if (data === null) {
+      console.error(`Could not parse legacy localStorage key "${key}", kept as "${key}_corrupt"`);
+      localStorage.setItem(`${key}_corrupt`, localStorage.getItem(key) || '');
+    }
+    localStorage.removeItem(key);
+  });
+};
+
+// StrictMode chạy effect hai lần: mọi lần gọi trong trang dùng chung một lượt nhập; lỗi thì lần sau thử lại
+let legacyImport: Promise<void> | null = null;
+const importLegacyOnce = () => {
+  if (legacyImport) return legacyImport;
+  legacyImport = importLegacyLocalStorage().catch(err => {
+    legacyImport = null;
+    throw err;
+  });
+  return legacyImport;
+};
+
+export const loadLibrary = async (): Promise<{ words: WordData[]; sentences: SentenceData[] }> => {
+  await importLegacyOnce();
+  return runTransaction(['words', 'sentences'], 'readonly', async tx => {
+    const [words, sentences] = await Promise.all([
+      requestToPromise<WordData[]>(tx.objectStore('words').getAll()),
+      requestToPromise<SentenceData[]>(tx.objectStore('sentences').getAll()),
+    ]);
+    return {
+      words: words.map(migrateSrsState).sort(newestFirst),
+      sentences: sentences.map(migrateSrsState).sort(newestFirst),
+    };
+  });
+};
+
+export const getStorageEstimate = async () => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Xin trình duyệt không tự dọn dữ liệu khi thiếu dung lượng
+export const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
+
+export const describeStorageError = (err: unknown) =>
+  err instanceof StorageQuotaError
+    ? 'Bộ nhớ trình duyệt đã đầy. Hãy xuất bản sao lưu và xóa bớt dữ liệu.'
+    : 'Không thể lưu dữ liệu vào trình duyệt.';
@@ -0,0 +1,73 @@
+import { WordData, SentenceData } from "../types";
+import { StudyItem } from "./studyQueue";
+import { legacyKey } from "./library";
+
+export interface StudyCard {
+  kind: 'word' | 'sentence';
+  item: StudyItem;
+  // Nội dung tiếng Anh người học cần nhớ, gõ hoặc đọc
+  answer: string;
+  prompt: string;
+  hint: string;
+  notes: string[];
+  example?: string;
+}
+
+export const isWordItem = (item: StudyItem): item is WordData => 'word' in item;
+
+export const getCardId = (item: StudyItem) => item.id ?? legacyKey(item);
+
+export const toStudyCard = (item: StudyItem): StudyCard => {
+  if (isWordItem(item)) {
+    return {
+      kind: 'word',
+      item,
+      answer: item.word,
+      prompt: item.meaning_vi,
+      hint: item.part_of_speech,
+      example: item.example_en,
+      notes: [item.root_word, item.mnemonic, item.notes].filter(Boolean),
+    };
+  }
+  const sentence = item as SentenceData;
+  return {
+    kind: 'sentence',
+    item: sentence,
+    answer: sentence.sentence,
+    prompt: sentence.meaning_vi,
+    hint: sentence.usage_context,
+    notes: [sentence.grammar_breakdown, sentence.notes].filter(Boolean),
+  };
+};
+
+export const normalizeAnswer = (text: string) => text
+  .toLowerCase()
+  .replace(/[‘’`]/g, "'")
+  .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Độ giống nhau theo từ (LCS / độ dài câu dài hơn), dùng để chấm câu
+const tokenSimilarity = (a: string[], b: string[]) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const dp: number[] = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = dp[j];
+      dp[j] = a[i - 1] === b[j - 1] ? prev + 1 : Math.max(dp[j], dp[j - 1]);
+      prev = temp;
+    }
+  }
+  return dp[b.length] / Math.max(a.length, b.length);
+};
+
+const SENTENCE_PASS_RATIO = 0.85;
+
+export const gradeAnswer = (card: StudyCard, input: string): boolean => {
+  const expected = normalizeAnswer(card.answer);
+  const actual = normalizeAnswer(input);
+  if (!actual) return false;
+  if (card.kind === 'word') return actual === expected;
+  return actual === expected || tokenSimilarity(expected.split(' '), actual.split(' ')) >= SENTENCE_PASS_RATIO;
+};
@@ -0,0 +1,55 @@
+import { WordData, SentenceData } from "../types";
+
+export type StudyItem = WordData | SentenceData;
+
+// Bộ lọc dùng chung cho danh sách ở FlashcardPage và hàng đợi ôn tập
+export interface LibraryFilter {
+  // Lọc theo bucket SRS như ở FlashcardPage (4 = từ 4 trở lên)
+  level?: number | null;
+  // '' = các mục chưa thuộc bộ thẻ nào
+  deck?: string | null;
+  tag?: string | null;
+}
+
+export interface StudyQueueOptions extends LibraryFilter {
+  type: 'word' | 'sentence' | 'all';
+  mode: 'due' | 'all';
+  now?: number;
+}
+
+export const isDue = (item: StudyItem, now: number = Date.now()) => !item.next_review || item.next_review <= now;
+
+export const matchesLevel = (item: StudyItem, level: number | null | undefined) => {
+  if (level === null || level === undefined) return true;
+  const itemLevel = item.srs_level || 0;
+  return level === 4 ? itemLevel >= 4 : itemLevel === level;
+};
+
+export const matchesDeck = (item: StudyItem, deck: string | null | undefined) =>
+  deck === null || deck === undefined || (item.deck || '') === deck;
+
+export const matchesTag = (item: StudyItem, tag: string | null | undefined) =>
+  !tag || (item.tags || []).includes(tag);
+
+export const matchesFilter = (item: StudyItem, filter: LibraryFilter) =>
+  matchesLevel(item, filter.level) && matchesDeck(item, filter.deck) && matchesTag(item, filter.tag);
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const buildStudyQueue = (words: WordData[], sentences: SentenceData[], options: StudyQueueOptions): StudyItem[] => {
+  const now = options.now ?? Date.now();
+  const pool: StudyItem[] = [
+    ...(options.type === 'sentence' ? [] : words),
+    ...(options.type === 'word' ? [] : sentences),
+  ];
+  return shuffle(pool.filter(item =>
+    (options.mode === 'all' || isDue(item, now)) && matchesFilter(item, options)
+  ));
+};
@@ -1,5 +1,33 @@
 
-export interface WordData {
+export interface SrsState {
+  srs_level?: number;
+  next_review?: number;
+  last_review?: number;
+  interval_days?: number;
+  repetitions?: number;
+  lapses?: number;
+  // SM-2
+  ease_factor?: number;
+  // FSRS
+  stability?: number;
+  difficulty?: number;
+}
+
+// Có khi mục đã được lưu vào thư viện; kết quả tra cứu mới thì chưa có
+export interface LibraryMeta {
+  id?: string;
+  created_at?: number;
+  updated_at?: number;
+  // Tên bộ thẻ; không có nghĩa là chưa phân loại
+  deck?: string;
+  tags?: string[];
+  // Ghi chú riêng của người học
+  notes?: string;
+  // Trường người dùng đã tự sửa -> thời điểm sửa; đồng bộ và AI không được ghi đè
+  edited_fields?: Record<string, number>;
+}
+
+export interface WordData extends SrsState, LibraryMeta {
   word: string;
   meaning_vi: string;
   definition_en: string;
@@ -17,11 +45,9 @@ export interface WordData {
   antonyms: string[];
   word_family: string[];
   collocations: string[];
-  srs_level?: number;
-  next_review?: number;
 }
 
-export interface SentenceData {
+export interface SentenceData extends SrsState, LibraryMeta {
   sentence: string;
   meaning_vi: string;
   grammar_breakdown: string;
@@ -29,8 +55,6 @@ export interface SentenceData {
   naturalness_score: number;
   similar_sentences: { en: string; vi: string }[];
   date_saved?: number;
-  srs_level?: number;
-  next_review?: number;
 }
 
 export interface PronunciationFeedback {
@@ -46,3 +70,18 @@ export interface SentenceEvaluation {
   explanation_vi: string;
   is_natural: boolean;
 }
+
+export interface ReviewLogEntry {
+  card_id: string;
+  card_type: 'word' | 'sentence';
+  timestamp: number;
+  rating: 'fail' | 'hard' | 'good' | 'easy';
+  mode: 'flashcard' | 'typing' | 'quiz';
+  // Gõ từ và trắc nghiệm: câu trả lời có đúng không (nhật ký cũ không có)
+  correct?: boolean;
+  scheduler: string;
+  response_ms: number;
+  prev_interval: number;
+  new_interval: number;
+  next_review: number;
+}
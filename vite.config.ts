@@ -1,19 +1,44 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Tệp trong public/ không đi qua bundle nên phải liệt kê tay
+const PUBLIC_PRECACHE = ['./', 'manifest.webmanifest', 'icon.svg'];
+
+// Xuất sw.js từ serviceWorker.js kèm danh sách tệp của bản build để precache
+const serviceWorker = (): Plugin => ({
+  name: 'flashvocab-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const files = [...PUBLIC_PRECACHE, ...Object.keys(bundle).filter(file => file !== 'index.html' && !file.endsWith('.map'))];
+    const template = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf8');
+    const version = createHash('sha256').update(template).update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = template
+      .replace('__PRECACHE_MANIFEST__', JSON.stringify(files))
+      .replace('__CACHE_VERSION__', version);
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Dùng proxy thì key chỉ nằm ở máy chủ, không bao giờ được đóng gói vào JS kể cả khi .env.local có key
+    const apiKey = env.AI_PROVIDER === 'proxy' ? undefined : env.GEMINI_API_KEY;
     return {
     base : '/tra-tieng-anh/',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL)
       },
       resolve: {
         alias: {